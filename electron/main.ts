@@ -1133,6 +1133,17 @@ app
       const timeoutMs = Number((payload as Record<string, unknown> | null)?.timeoutMs);
       return printWorker.discoverRtDevices(Number.isFinite(timeoutMs) ? timeoutMs : undefined);
     });
+    ipcMain.handle("desktop:printer:force-reprint", async (_event, payload) => {
+      if (!printWorker) throw new Error("PRINT_WORKER_UNAVAILABLE");
+      const jobId = String(((payload || {}) as Record<string, unknown>).jobId || "").trim();
+      if (!jobId) return { ok: false, reason: "JOB_ID_MISSING" };
+      return printWorker.forceReprint(jobId);
+    });
+    ipcMain.handle("desktop:printer:open-cash-drawer", async (_event, payload) => {
+      if (!printWorker) throw new Error("PRINT_WORKER_UNAVAILABLE");
+      const printerId = String(((payload || {}) as Record<string, unknown>).printerId || "").trim();
+      return printWorker.openCashDrawer(printerId || null);
+    });
     ipcMain.handle("desktop:printer:test-rt-receipt", async (_event, payload) => {
       if (!printWorker) throw new Error("PRINT_WORKER_UNAVAILABLE");
       const config = (payload || {}) as { host?: string; port?: number; brand?: string; api_path?: string };
@@ -1143,6 +1154,16 @@ app
         api_path: String(config.api_path ?? "/cgi-bin/fpmate.cgi"),
       });
     });
+    ipcMain.handle("desktop:printer:run-fiscal-report", async (_event, payload) => {
+      if (!printWorker) throw new Error("PRINT_WORKER_UNAVAILABLE");
+      const config = (payload || {}) as { type?: string; host?: string; port?: number; brand?: string; api_path?: string };
+      return printWorker.runFiscalReport(String(config.type ?? ""), {
+        host: String(config.host ?? ""),
+        port: Number(config.port ?? 80),
+        brand: String(config.brand ?? "epson"),
+        api_path: String(config.api_path ?? "/cgi-bin/fpmate.cgi"),
+      });
+    });
   })
   .catch((error) => {
     log("ERROR", "desktop startup failed", error instanceof Error ? error.stack || error.message : String(error));
@@ -11,7 +11,12 @@ type PrinterWorkerConfigPayload = {
   consumerId?: string;
   deviceName?: string;
   pollMs?: number;
+  safetyPollMs?: number;
+  offlineHoldMs?: number;
+  healthProbeMs?: number;
+  realtimeEnabled?: boolean;
   claimLimit?: number;
+  printConcurrency?: number;
   autoStart?: boolean;
 };
 
@@ -140,6 +145,10 @@ contextBridge.exposeInMainWorld("desktopShell", {
       ),
     testRtReceipt: (config: { host: string; port: number; brand: string; api_path: string }) =>
       ipcRenderer.invoke("desktop:printer:test-rt-receipt", config || {}),
+    runFiscalReport: (config: { type: "z" | "x"; host: string; port: number; brand: string; api_path: string }) =>
+      ipcRenderer.invoke("desktop:printer:run-fiscal-report", config || {}),
+    forceReprint: (jobId: string) => ipcRenderer.invoke("desktop:printer:force-reprint", { jobId }),
+    openCashDrawer: (printerId?: string) => ipcRenderer.invoke("desktop:printer:open-cash-drawer", { printerId }),
     onState: (callback: (state: unknown) => void) => {
       if (typeof callback !== "function") return () => {};
       const handler = (_event: unknown, state: unknown) => callback(state);
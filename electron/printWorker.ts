@@ -1,9 +1,10 @@
+import crypto from "node:crypto";
 import fs from "node:fs/promises";
 import net from "node:net";
 import os from "node:os";
 import path from "node:path";
-import type { BrowserWindow } from "electron";
-import { createClient, type SupabaseClient } from "@supabase/supabase-js";
+import { nativeImage, type BrowserWindow } from "electron";
+import { createClient, type RealtimeChannel, type SupabaseClient } from "@supabase/supabase-js";
 
 type RuntimeConfig = {
   VITE_SUPABASE_URL: string;
@@ -14,7 +15,12 @@ type WorkerConfig = {
   consumerId: string;
   deviceName: string;
   pollMs: number;
+  safetyPollMs: number;
+  offlineHoldMs: number;
+  healthProbeMs: number;
+  realtimeEnabled: boolean;
   claimLimit: number;
+  printConcurrency: number;
   autoStart: boolean;
 };
 
@@ -30,6 +36,8 @@ type WorkerLogRow = {
   message: string;
 };
 
+type RealtimeStatus = "disabled" | "connecting" | "live" | "fallback";
+
 type RestaurantScope = {
   id: string;
   name: string;
@@ -51,12 +59,113 @@ type PhysicalReceiptJobRow = {
   created_at: string;
 };
 
+/** RT department and VAT code (as programmed on the device) a fiscal line is booked on. */
+type FiscalRtDepartment = {
+  department: number;
+  vatCode: number;
+};
+
+type FiscalRtConfig = {
+  /** VAT rate ("iva_22"), category, department or block ("ayce", "cover", "extras") -> RT department. */
+  byKey: Map<string, FiscalRtDepartment>;
+  fallback: FiscalRtDepartment;
+  /** False when the restaurant has no rt_departments and every line goes to the default department. */
+  configured: boolean;
+};
+
+type FiscalReceiptLine =
+  | { type: "item"; description: string; quantity: number; unitCents: number; rt: FiscalRtDepartment }
+  | { type: "adjustment"; description: string; amountCents: number; surcharge: boolean; rt: FiscalRtDepartment };
+
+type PaymentTenderMethod = "cash" | "card" | "ticket" | "not_paid";
+
+/** One part of a (possibly split) payment, in cents. */
+type PaymentTender = {
+  method: PaymentTenderMethod;
+  cents: number;
+  /** Printed instead of the method name, e.g. the meal voucher issuer. */
+  description: string | null;
+};
+
 type NonFiscalReceiptJobRow = {
   id: string;
   payload: Record<string, unknown> | null;
   created_at: string;
 };
 
+/** "void" (annullo) and "refund" (reso) point back to a sale already stored in the RT memory. */
+type PhysicalDocumentType = "sale" | "void" | "refund";
+
+/** Reference the RT needs to find the original sale: Z closure, document number, date and RT serial. */
+type FiscalDocumentRef = {
+  zNumber: number;
+  documentNumber: number;
+  /** ddmmyyyy as printed on the original receipt. */
+  date: string;
+  serial: string;
+};
+
+/** Numbers the RT gave a document it just issued, read back from its response; null when not reported. */
+type IssuedFiscalDocument = {
+  zNumber: number | null;
+  documentNumber: number | null;
+  /** ddmmyyyy, the RT's own date, which may differ from the PC clock. */
+  date: string | null;
+};
+
+/** Decoded `printerStatus` addInfo digits of an Epson RT. */
+type FpMatePrinterStatus = {
+  raw: string;
+  printer: "ok" | "paper_low" | "offline" | "unknown";
+  journal: "ok" | "near_full" | "unformatted" | "previous" | "foreign" | "full" | "unknown";
+  drawerOpen: boolean;
+  documentOpen: boolean;
+  mode: "registration" | "x" | "z" | "set" | "unknown";
+  /** Italian notes for anything staff should look at, even when the command succeeded. */
+  warnings: string[];
+};
+
+type FpMateResponse = {
+  success: boolean;
+  code: string;
+  status: number | null;
+  addInfo: Record<string, string>;
+  fiscalReceiptNumber: string | null;
+  fiscalReceiptAmount: number | null;
+  /** ddmmyyyy from `fiscalReceiptDate`. */
+  fiscalReceiptDate: string | null;
+  zRepNumber: string | null;
+  dailyAmount: number | null;
+  printerStatus: FpMatePrinterStatus | null;
+  /** Italian explanation of a failure; null on success. */
+  error: string | null;
+};
+
+type FiscalReportJobRow = {
+  id: string;
+  payload: Record<string, unknown> | null;
+  created_at: string;
+};
+
+/** "z" is the daily closure (chiusura giornaliera), "x" the non-closing reading. */
+type FiscalReportType = "z" | "x";
+
+/** Receipts claimed in the same tick as a report, so a Z never overtakes them. */
+type FiscalReportReceiptState = {
+  /** The claim batch was full: more receipts may be waiting on the server. */
+  backlog: boolean;
+  /** Receipts of this tick that have not been issued or failed yet. */
+  unsettled: Set<string>;
+};
+
+type FiscalReportResult = {
+  type: FiscalReportType;
+  /** Z progressive number returned by the RT; null for X reports. */
+  closureNumber: string | null;
+  dailyAmount: number | null;
+  printedAt: string;
+};
+
 type LivePrinter = {
   id: string;
   name: string;
@@ -64,12 +173,282 @@ type LivePrinter = {
   port: number;
   enabled: boolean;
   departments: string[];
+  statusMode: PrinterStatusMode;
+  copies: number;
+  /** Optional printers (e.g. expo) do not fail the job when they cannot print. */
+  mandatory: boolean;
+  paper: PaperProfile;
+  encoding: PrinterEncoding;
+  drawer: CashDrawerConfig | null;
+  buzzer: PrinterBuzzerConfig | null;
+};
+
+type CashDrawerConfig = {
+  /** ESC p connector pin: 0 = pin 2, 1 = pin 5. */
+  pin: 0 | 1;
+  pulseMs: number;
+};
+
+type PrinterBuzzerConfig = {
+  /** "epson" sends ESC B n t, "star" the ESC GS BEL external buzzer sequence. */
+  mode: "epson" | "star";
+  beeps: number;
+};
+
+type PrinterEncodingName = "cp858" | "cp1252" | "gb18030" | "big5" | "utf8";
+
+type PrinterEncoding = {
+  name: PrinterEncodingName;
+  /** ESC t table number for single-byte code pages; vendors number them differently. */
+  codePage: number | null;
+};
+
+type PaperWidth = "58mm" | "80mm";
+
+type PaperProfile = {
+  paperWidth: PaperWidth;
+  font: "a" | "b";
+  /** Printable area in dots, sent with GS W so narrow heads do not clip the right margin. */
+  printableDots: number;
+  /** False for the legacy profile: printers without paper_width keep their own print area. */
+  setsPrintArea: boolean;
+  fontAColumns: number;
+  fontBColumns: number;
+};
+
+/** Opt-in per printer (`status_mode`): printers that never answer would make every ticket wait the query timeout. */
+type PrinterStatusMode = "off" | "query" | "asb";
+
+type PrinterState = "ok" | "paper_low" | "paper_out" | "cover_open" | "cutter_error" | "offline" | "fault";
+
+type PrinterStatusSnapshot = {
+  state: PrinterState;
+  online: boolean;
+  coverOpen: boolean;
+  paperLow: boolean;
+  paperOut: boolean;
+  cutterError: boolean;
+  recoverableError: boolean;
+  unrecoverableError: boolean;
+  message: string;
+};
+
+type PrinterStatusEntry = {
+  printerId: string | null;
+  printerName: string;
+  host: string;
+  port: number;
+  reachable: boolean | null;
+  supported: boolean | null;
+  status: PrinterStatusSnapshot | null;
+  lastSuccessAt: string | null;
+  lastError: string | null;
+  updatedAt: string;
+};
+
+type PrinterTarget = {
+  id: string | null;
+  name: string;
+  host: string;
+  port: number;
+  statusMode?: PrinterStatusMode;
+  copies?: number;
+  mandatory?: boolean;
+  paper?: PaperProfile;
+  encoding?: PrinterEncoding;
+  drawer?: CashDrawerConfig | null;
+  buzzer?: PrinterBuzzerConfig | null;
+  /** Ordered department fallbacks tried when this printer is down. */
+  fallbacks?: PrinterTarget[];
+};
+
+type PrinterDelivery = { held: false } | { held: true; done: Promise<void> };
+
+type PrinterSendResult = {
+  delivery: PrinterDelivery;
+  printer: PrinterTarget;
+  redirectedFrom: PrinterTarget | null;
+};
+
+type PrintPartResult = {
+  target: PrinterTarget;
+  printer: PrinterTarget;
+  redirectedFrom: PrinterTarget | null;
+  error: string | null;
+  /** Already printed on an earlier delivery of the same job. */
+  skipped: boolean;
+};
+
+type HeldDelivery = {
+  label: string;
+  jobId: string | null;
+  payload: Buffer;
+  deadline: number;
+  resolve: () => void;
+  reject: (error: Error) => void;
+};
+
+type HeldPrinterQueue = {
+  target: PrinterTarget;
+  deliveries: HeldDelivery[];
+  since: string;
+  attempts: number;
+  nextRetryAt: number;
+  lastError: string;
+  timer: NodeJS.Timeout | null;
 };
 
 type LiveRoutes = {
   byId: Map<string, LivePrinter>;
-  byDepartment: Map<string, LivePrinter>;
+  byDepartment: Map<string, LivePrinter[]>;
+  fallbacksByDepartment: Map<string, LivePrinter[]>;
   defaultPrinterId: string | null;
+  splitByItemDepartment: boolean;
+  templates: TicketTemplates;
+  /** Dish id or normalized menu name -> name in the kitchen language. */
+  dishTranslations: Map<string, string>;
+  /** Review page printed as a QR code on non-fiscal receipts. */
+  reviewUrl: string | null;
+  logo: { url: string; widthDots: number | null } | null;
+  allergenKeywords: string[];
+  fiscal: FiscalRtConfig;
+};
+
+/** Subset of a job printed as its own ticket when an order is split across departments. */
+type TicketPart = {
+  items: unknown[];
+  departments: string[];
+  index: number;
+  count: number;
+};
+
+type TicketTextSize = "normal" | "tall" | "wide" | "large";
+
+type TicketAlign = "left" | "center" | "right";
+
+type TicketQrLevel = "L" | "M" | "Q" | "H";
+
+type TicketCode =
+  | { type: "qr"; data: string; moduleSize: number; errorCorrection: TicketQrLevel; align: TicketAlign }
+  | { type: "barcode"; data: string; height: number; hri: boolean; align: TicketAlign };
+
+type TicketBlock =
+  | { type: "text"; text: string; bold: boolean; size: TicketTextSize; align: TicketAlign; inverted: boolean }
+  | { type: "row"; label: string; value: string; bold: boolean; size: TicketTextSize }
+  | { type: "separator"; char: string }
+  | { type: "blank" }
+  | { type: "qr"; data: string; moduleSize: number; errorCorrection: TicketQrLevel; align: TicketAlign }
+  | { type: "barcode"; data: string; height: number; hri: boolean; align: TicketAlign }
+  | { type: "logo"; align: TicketAlign }
+  /** One row per payment tender on receipts. */
+  | { type: "payments"; label: string; value: string; bold: boolean; size: TicketTextSize }
+  | {
+      type: "items";
+      format: string;
+      /** Line under the item with the menu (Italian) name, printed only for translated dishes. */
+      original: string;
+      notes: string;
+      bold: boolean;
+      size: TicketTextSize;
+      originalBold: boolean;
+      originalSize: TicketTextSize;
+      notesBold: boolean;
+      notesSize: TicketTextSize;
+      /** Course heading printed inside a rule of courseChar when the items span courses. */
+      course: string;
+      courseChar: string;
+      /** Marker under the heading of a course the kitchen must hold until called. */
+      held: string;
+      /** Allergen and diet lines, always printed white on black. */
+      allergens: string;
+      dietary: string;
+    };
+
+type TicketTemplate = {
+  header: TicketBlock[];
+  body: TicketBlock[];
+  footer: TicketBlock[];
+};
+
+/** Kitchen layouts (comande, variations) and receipt layouts accept different placeholders and blocks. */
+type TicketTemplateKind = "kitchen" | "receipt";
+
+type TicketTemplates = {
+  kitchen: TicketTemplate;
+  kitchenByDepartment: Map<string, TicketTemplate>;
+  /** Delta tickets for orders changed or cancelled after they were sent. */
+  variation: TicketTemplate;
+  nonFiscalReceipt: TicketTemplate;
+};
+
+/** What a kitchen part needs to render: the department template and, when split, its item subset. */
+type KitchenTicketOptions = {
+  template: TicketTemplate;
+  part: TicketPart | null;
+  translations: Map<string, string>;
+  logo: LiveRoutes["logo"];
+  allergenKeywords: string[];
+  originalPrintedAt: string | null;
+};
+
+/** One rendered ticket line with the ESC/POS styling it is printed with, or a QR/barcode. */
+type TicketLine =
+  | {
+      text: string;
+      bold: boolean;
+      size: TicketTextSize;
+      /** White on black (GS B), reserved for what must not be missed. */
+      inverted?: boolean;
+    }
+  | { code: TicketCode }
+  | { raster: TicketRaster; align: TicketAlign };
+
+/** 1-bit image, MSB first, rows padded to whole bytes as GS v 0 expects. */
+type TicketRaster = {
+  width: number;
+  height: number;
+  data: Buffer;
+};
+
+/** A converted logo plus the validators used to ask the server whether it changed. */
+type CachedLogo = {
+  raster: TicketRaster;
+  etag: string | null;
+  lastModified: string | null;
+  checkedAt: number;
+};
+
+type SpoolJobKind = "print" | "physical_receipt" | "non_fiscal_receipt" | "fiscal_report";
+
+type SpoolOutcome = {
+  success: boolean;
+  error: string | null;
+  receiptId: string | null;
+  meta?: Record<string, unknown> | null;
+  finishedAt: string;
+};
+
+type SpoolEntry = {
+  kind: SpoolJobKind;
+  jobId: string;
+  claimedAt: string;
+  outcome: SpoolOutcome | null;
+  ackAttempts: number;
+  nextAckAt: string | null;
+  lastAckError: string | null;
+};
+
+type LedgerEntry = {
+  kind: SpoolJobKind;
+  jobId: string;
+  printedAt: string;
+  receiptId: string | null;
+  /** Order id (or number) of kitchen tickets, so later variations can point back to them. */
+  orderRef: string | null;
+  /** Completion meta sent with the first ack (e.g. Z totals), repeated when a duplicate is re-acknowledged. */
+  meta: Record<string, unknown> | null;
+  /** RT numbers and date of an issued document, so an annullo/reso can reference it. */
+  fiscalDocument: IssuedFiscalDocument | null;
 };
 
 type DiscoverPrinter = {
@@ -104,10 +483,28 @@ type WorkerPublicState = {
     running: boolean;
     processing: boolean;
     assignedPrinterId: string | null;
+    realtime: RealtimeStatus;
+    spool: {
+      pendingAcks: number;
+      oldestPendingAt: string | null;
+      lastAckError: string | null;
+    };
+    waitingPrinters: Array<{
+      printerId: string | null;
+      printerName: string;
+      host: string;
+      port: number;
+      waitingJobs: number;
+      since: string;
+      nextRetryAt: string;
+      lastError: string;
+    }>;
+    printerStatus: PrinterStatusEntry[];
     stats: {
       claimed: number;
       printed: number;
       failed: number;
+      deduplicated: number;
       lastRunAt: string | null;
       lastError: string | null;
     };
@@ -123,6 +520,273 @@ type PrintWorkerDeps = {
 };
 
 const CONFIG_FILENAME = "desktop-print-worker.json";
+const SPOOL_FILENAME = "desktop-print-spool.json";
+const SPOOL_ACK_BACKOFF_BASE_MS = 2000;
+const SPOOL_ACK_BACKOFF_MAX_MS = 5 * 60 * 1000;
+const LEDGER_FILENAME = "desktop-print-ledger.json";
+const LEDGER_RETENTION_MS = 7 * 24 * 60 * 60 * 1000;
+const LEDGER_MAX_ENTRIES = 5000;
+const HELD_RETRY_BASE_MS = 1000;
+const HELD_RETRY_MAX_MS = 30000;
+// Rejection of deliveries dropped when the service stops: the job is released, not failed.
+const HELD_DROPPED_ERROR = "PRINT_HELD_DROPPED";
+// HTTP 200 from the RT with a body that is not an FPMate response: the document may or may not exist.
+const FPMATE_UNREADABLE_ERROR = "RT_RESPONSE_UNREADABLE";
+// Spool/ledger ids of Z/X reports started from the desktop shell rather than claimed from the server.
+const MANUAL_FISCAL_REPORT_PREFIX = "manual-";
+const STATUS_QUERY_TIMEOUT_MS = 800;
+const STATUS_AFTER_PRINT_TIMEOUT_MS = 3000;
+const STATUS_UNSUPPORTED_RETRY_MS = 10 * 60 * 1000;
+const HEALTH_PROBE_TIMEOUT_MS = 3000;
+const HEALTH_PROBE_CONCURRENCY = 4;
+const HEALTH_FIRST_PROBE_DELAY_MS = 5000;
+// Columns already account for the 2-dot character spacing (ESC SP 2) sent with every ticket.
+const PAPER_PROFILES: Record<PaperWidth, Omit<PaperProfile, "font">> = {
+  "58mm": { paperWidth: "58mm", printableDots: 384, setsPrintArea: true, fontAColumns: 27, fontBColumns: 34 },
+  "80mm": { paperWidth: "80mm", printableDots: 576, setsPrintArea: true, fontAColumns: 41, fontBColumns: 52 },
+};
+// Printers without paper_width keep the fixed 42-column Font B layout tickets had before profiles.
+const LEGACY_PAPER_PROFILE: Omit<PaperProfile, "font"> = {
+  paperWidth: "80mm",
+  printableDots: 512,
+  setsPrintArea: false,
+  fontAColumns: 36,
+  fontBColumns: 42,
+};
+const TICKET_CHAR_SPACING = 2;
+// Epson ESC t numbering; printers using another table set code_page in their settings.
+const DEFAULT_CODE_PAGES: Partial<Record<PrinterEncodingName, number>> = { cp858: 19, cp1252: 16 };
+// CP858 is CP850 with the euro sign at 0xD5; WHATWG TextDecoder does not know either of them.
+const CP858_HIGH_CHARS =
+  "ÇüéâäàåçêëèïîìÄÅÉæÆôöòûùÿÖÜø£Ø×ƒáíóúñÑªº¿®¬½¼¡«»░▒▓│┤ÁÂÀ©╣║╗╝¢¥┐└┴┬├─┼ãÃ╚╔╩╦╠═╬¤ðÐÊËÈ€ÍÎÏ┘┌█▄¦Ì▀ÓßÔÒõÕµþÞÚÛÙýÝ¯´\u00ad±‗¾¶§÷¸°¨·¹³²■\u00a0";
+// CP1252 0x80-0x9F (empty slots are unassigned); 0xA0-0xFF matches Latin-1. Node's
+// windows-1252 TextDecoder decodes this range as Latin-1 control codes, so it is spelled out.
+const CP1252_C1_CHARS = "€\u0000‚ƒ„…†‡ˆ‰Š‹Œ\u0000Ž\u0000\u0000‘’“”•–—˜™š›œ\u0000žŸ";
+const TRANSLITERATIONS: Record<string, string> = {
+  "€": "EUR",
+  "‘": "'",
+  "’": "'",
+  "“": '"',
+  "”": '"',
+  "–": "-",
+  "—": "-",
+  "…": "...",
+  "•": "*",
+  "ß": "ss",
+  "œ": "oe",
+  "Œ": "OE",
+  "æ": "ae",
+  "Æ": "AE",
+};
+const TICKET_SECTIONS = ["header", "body", "footer"] as const;
+const TICKET_TEXT_SIZES: Record<TicketTextSize, number> = { normal: 0x00, tall: 0x01, wide: 0x10, large: 0x11 };
+const TICKET_ALIGNS: TicketAlign[] = ["left", "center", "right"];
+const KITCHEN_TICKET_FIELDS = [
+  "department",
+  "order",
+  "table",
+  "date",
+  "restaurant",
+  "part",
+  "redirected_from",
+  "job_id",
+  "order_id",
+  "urgent",
+  "allergy",
+  "storno",
+  "original_order",
+  "original_printed_at",
+];
+const KITCHEN_ITEM_FIELDS = ["qty", "name", "original_name", "notes", "allergens", "dietary", "change", "change_note"];
+const VARIATION_JOB_TYPES = ["variation", "variazione", "modification", "cancellation", "storno"];
+// Notes mentioning any of these words are printed inverted; a trailing * matches any ending
+// ("allergi*" covers allergia, allergico). settings.printing.allergen_keywords replaces the list.
+const DEFAULT_ALLERGEN_KEYWORDS = [
+  "allergi*",
+  "intolleran*",
+  "celiac*",
+  "glutine",
+  "lattosio",
+  "latte",
+  "uova",
+  "uovo",
+  "arachidi",
+  "frutta a guscio",
+  "crostacei",
+  "molluschi",
+  "soia",
+  "sesamo",
+  "senape",
+  "lupini",
+  "solfiti",
+];
+const KITCHEN_COURSE_FIELDS = ["course"];
+// Usual service order; a course_order on the items wins over it.
+const COURSE_ORDER = ["antipast", "zupp", "sushi", "sashimi", "crud", "cald", "primi", "second", "dolc", "dessert"];
+const NON_FISCAL_RECEIPT_FIELDS = [
+  "restaurant",
+  "table",
+  "date",
+  "payment",
+  "ayce_total",
+  "cover_total",
+  "extras_total",
+  "total",
+  "change",
+  "review_url",
+  "join_url",
+];
+const PAYMENT_ROW_FIELDS = ["method", "amount"];
+const COMMON_TICKET_BLOCKS: TicketBlock["type"][] = ["text", "row", "separator", "blank", "qr", "barcode", "logo"];
+const TICKET_TEMPLATE_SPECS: Record<TicketTemplateKind, { fields: string[]; blocks: TicketBlock["type"][] }> = {
+  kitchen: { fields: KITCHEN_TICKET_FIELDS, blocks: [...COMMON_TICKET_BLOCKS, "items"] },
+  receipt: { fields: NON_FISCAL_RECEIPT_FIELDS, blocks: [...COMMON_TICKET_BLOCKS, "payments"] },
+};
+const PAYMENT_TENDER_LABELS: Record<PaymentTenderMethod, string> = {
+  cash: "Contanti",
+  card: "Carta",
+  ticket: "Buoni pasto",
+  not_paid: "Non riscosso",
+};
+const PAYMENT_TENDER_ALIASES: Record<string, PaymentTenderMethod> = {
+  cash: "cash",
+  contanti: "cash",
+  card: "card",
+  carta: "card",
+  credit_card: "card",
+  bancomat: "card",
+  pos: "card",
+  electronic: "card",
+  ticket: "ticket",
+  meal_voucher: "ticket",
+  buoni_pasto: "ticket",
+  buono_pasto: "ticket",
+  ticket_restaurant: "ticket",
+  not_paid: "not_paid",
+  unpaid: "not_paid",
+  non_riscosso: "not_paid",
+};
+// FPMate printRecTotal paymentType/index per tender; cash must come last so the RT computes change.
+const EPSON_PAYMENT_TENDERS: Record<PaymentTenderMethod, { description: string; paymentType: number; index: number }> = {
+  card: { description: "ELETTRONICO", paymentType: 2, index: 1 },
+  ticket: { description: "BUONI PASTO", paymentType: 3, index: 1 },
+  not_paid: { description: "NON RISCOSSO", paymentType: 5, index: 0 },
+  cash: { description: "CONTANTI", paymentType: 0, index: 0 },
+};
+// FPMate `code` values of a failed command, as shown to staff.
+const FPMATE_ERROR_MESSAGES: Record<string, string> = {
+  EPTR_REC_EMPTY: "carta esaurita",
+  EPTR_COVER_OPEN: "coperchio aperto",
+  EPTR_AUTOCUTTER_ERROR: "taglierina bloccata",
+  "PRINTER ERROR": "errore della stampante fiscale",
+  FP_NO_ANSWER: "il misuratore fiscale non risponde",
+  FP_NO_ANSWER_NETWORK: "il misuratore fiscale non risponde in rete",
+  LAN_ERROR: "errore di rete del misuratore",
+  LAN_TIME_OUT: "tempo scaduto sulla rete del misuratore",
+  SCHEMA_ERROR: "comando XML non valido",
+};
+const FPMATE_PRINTER_STATES: Record<string, FpMatePrinterStatus["printer"]> = { "0": "ok", "2": "paper_low", "3": "offline" };
+const FPMATE_JOURNAL_STATES: Record<string, FpMatePrinterStatus["journal"]> = {
+  "0": "ok",
+  "1": "near_full",
+  "2": "unformatted",
+  "3": "previous",
+  "4": "foreign",
+  "5": "full",
+};
+const FPMATE_MODES: Record<string, FpMatePrinterStatus["mode"]> = { "0": "registration", "1": "x", "2": "z", "3": "set" };
+const PHYSICAL_DOCUMENT_LABELS: Record<PhysicalDocumentType, string> = {
+  sale: "scontrino",
+  void: "annullo",
+  refund: "reso",
+};
+
+const LOGO_CACHE_DIRNAME = "desktop-logo-cache";
+const LOGO_FETCH_TIMEOUT_MS = 8000;
+const LOGO_RETRY_MS = 10 * 60 * 1000;
+const LOGO_REFRESH_MS = 6 * 60 * 60 * 1000;
+const LOGO_MAX_BYTES = 2 * 1024 * 1024;
+const TICKET_QR_LEVELS: TicketQrLevel[] = ["L", "M", "Q", "H"];
+// Same scheme parseDeepLinkRoute in main.ts opens: sushiamo://join/<token>.
+const JOIN_LINK_PREFIX = "sushiamo://join/";
+// Bundled layouts, written in the same shape as settings.printing.ticket_templates.
+const DEFAULT_KITCHEN_TEMPLATE: Record<string, unknown> = {
+  header: [
+    { type: "text", text: "COMANDA {department} {order}" },
+    { type: "text", text: "PARTE {part}", bold: true },
+    { type: "text", text: "TAVOLO: {table}", bold: true, size: "large" },
+    { type: "text", text: "DATA: {date}" },
+    { type: "text", text: "REDIRECTED FROM {redirected_from}", bold: true },
+    { type: "text", text: "{urgent}", bold: true, size: "large", align: "center" },
+    { type: "text", text: "{allergy}", bold: true, size: "large", align: "center", inverted: true },
+    { type: "separator", char: "-" },
+  ],
+  body: [
+    {
+      type: "items",
+      format: "{qty}x {name}",
+      original: "{original_name}",
+      notes: "Nota: {notes}",
+      bold: true,
+      size: "large",
+    },
+  ],
+  footer: [{ type: "text", text: "-- {restaurant} --" }],
+};
+const DEFAULT_VARIATION_TEMPLATE: Record<string, unknown> = {
+  header: [
+    { type: "text", text: "{storno}", bold: true, size: "large", align: "center", inverted: true },
+    { type: "text", text: "VARIAZIONE {department} {order}", bold: true },
+    { type: "text", text: "PARTE {part}", bold: true },
+    { type: "text", text: "TAVOLO: {table}", bold: true, size: "large" },
+    { type: "text", text: "RIF. COMANDA {original_order}" },
+    { type: "text", text: "STAMPATA ALLE {original_printed_at}" },
+    { type: "text", text: "DATA: {date}" },
+    { type: "text", text: "REDIRECTED FROM {redirected_from}", bold: true },
+    { type: "text", text: "{allergy}", bold: true, size: "large", align: "center", inverted: true },
+    { type: "separator", char: "=" },
+  ],
+  body: [
+    {
+      type: "items",
+      format: "{change} {qty}x {name} {change_note}",
+      original: "{original_name}",
+      notes: "Nota: {notes}",
+      bold: true,
+      size: "large",
+    },
+  ],
+  footer: [{ type: "separator", char: "=" }],
+};
+const DEFAULT_NON_FISCAL_RECEIPT_TEMPLATE: Record<string, unknown> = {
+  header: [
+    { type: "logo" },
+    { type: "separator", char: "=" },
+    { type: "text", text: "{restaurant}", align: "center" },
+    { type: "separator", char: "=" },
+    { type: "text", text: "SCONTRINO NON FISCALE", align: "center" },
+    { type: "separator", char: "-" },
+    { type: "text", text: "Tavolo: {table}", align: "center", bold: true, size: "large" },
+    { type: "text", text: "Data:   {date}", align: "center" },
+    { type: "separator", char: "-" },
+  ],
+  body: [
+    { type: "row", label: "AYCE", value: "{ayce_total}" },
+    { type: "row", label: "Coperto", value: "{cover_total}" },
+    { type: "row", label: "Extra", value: "{extras_total}" },
+    { type: "separator", char: "-" },
+    { type: "row", label: "TOTALE", value: "{total}" },
+    { type: "payments", label: "{method}", value: "{amount}" },
+    { type: "row", label: "Resto", value: "{change}" },
+  ],
+  footer: [
+    { type: "separator", char: "=" },
+    { type: "text", text: "Grazie per la visita!", align: "center" },
+    { type: "qr", data: "{review_url}", align: "center" },
+    { type: "text", text: "*** NON FISCALE ***", align: "center" },
+    { type: "separator", char: "=" },
+  ],
+};
 const DISCOVERY_PORTS = [9100, 515, 631];
 const RT_DISCOVERY_PORTS = [8008, 80, 443];
 const DISCOVERY_TIMEOUT_MIN = 120;
@@ -131,6 +795,12 @@ const DISCOVERY_TIMEOUT_DEFAULT = 350;
 const DISCOVERY_CONCURRENCY = 96;
 const DISCOVERY_MAX_HOSTS = 1024;
 const LOG_CAP = 500;
+// Job tables watched over Supabase Realtime; an INSERT triggers an immediate claim.
+const REALTIME_JOB_TABLES = ["print_jobs", "physical_receipt_jobs", "non_fiscal_receipt_jobs", "fiscal_report_jobs"];
+const SPOOL_JOB_KINDS: SpoolJobKind[] = ["print", "physical_receipt", "non_fiscal_receipt", "fiscal_report"];
+// A Z report prints the whole day and can keep the RT busy well past a receipt timeout.
+const FISCAL_REPORT_TIMEOUT_MS = 90000;
+const REALTIME_RESUBSCRIBE_MS = 15000;
 
 const roleRank: Record<RestaurantScope["role"], number> = {
   owner: 1,
@@ -193,12 +863,37 @@ function sanitizePollMs(value: unknown) {
   return Math.max(1000, Math.min(10000, Math.trunc(n)));
 }
 
+function sanitizeSafetyPollMs(value: unknown) {
+  const n = Number(value);
+  if (!Number.isFinite(n)) return 30000;
+  return Math.max(10000, Math.min(300000, Math.trunc(n)));
+}
+
+function sanitizeOfflineHoldMs(value: unknown) {
+  const n = Number(value);
+  if (!Number.isFinite(n)) return 120000;
+  return Math.max(0, Math.min(15 * 60 * 1000, Math.trunc(n)));
+}
+
+function sanitizeHealthProbeMs(value: unknown) {
+  const n = Number(value);
+  if (!Number.isFinite(n)) return 60000;
+  if (n <= 0) return 0;
+  return Math.max(15000, Math.min(600000, Math.trunc(n)));
+}
+
 function sanitizeClaimLimit(value: unknown) {
   const n = Number(value);
   if (!Number.isFinite(n)) return 5;
   return Math.max(1, Math.min(20, Math.trunc(n)));
 }
 
+function sanitizePrintConcurrency(value: unknown) {
+  const n = Number(value);
+  if (!Number.isFinite(n)) return 4;
+  return Math.max(1, Math.min(16, Math.trunc(n)));
+}
+
 function sanitizePrinterPort(value: unknown) {
   const n = Number(value);
   if (!Number.isFinite(n)) return 9100;
@@ -211,6 +906,86 @@ function normalizePhysicalBrand(value: unknown) {
   return brand || "epson";
 }
 
+function sanitizePrinterCopies(value: unknown) {
+  const n = Number(value);
+  if (!Number.isFinite(n)) return 1;
+  return Math.max(1, Math.min(5, Math.trunc(n)));
+}
+
+function resolvePaperProfile(paperWidth: unknown, font: unknown): PaperProfile {
+  const width = String(paperWidth ?? "").trim().toLowerCase().replace(/\s+/g, "");
+  const base = !width
+    ? LEGACY_PAPER_PROFILE
+    : width === "58mm" || width === "58"
+      ? PAPER_PROFILES["58mm"]
+      : PAPER_PROFILES["80mm"];
+  return { ...base, font: String(font ?? "").trim().toLowerCase() === "a" ? "a" : "b" };
+}
+
+function resolvePrinterEncoding(value: unknown, codePage: unknown): PrinterEncoding {
+  const raw = String(value ?? "").trim().toLowerCase().replace(/[\s_-]+/g, "");
+  const aliases: Record<string, PrinterEncodingName> = {
+    cp858: "cp858",
+    pc858: "cp858",
+    cp1252: "cp1252",
+    windows1252: "cp1252",
+    wpc1252: "cp1252",
+    gb18030: "gb18030",
+    gbk: "gb18030",
+    big5: "big5",
+    utf8: "utf8",
+  };
+  const name = aliases[raw] || "cp858";
+  const table = Number(codePage);
+  const override = Number.isInteger(table) && table >= 0 && table <= 255 ? table : null;
+  return { name, codePage: name === "cp858" || name === "cp1252" ? (override ?? DEFAULT_CODE_PAGES[name] ?? null) : null };
+}
+
+function parseCashDrawerConfig(value: unknown): CashDrawerConfig | null {
+  if (value === true) return { pin: 0, pulseMs: 100 };
+  if (!value || typeof value !== "object") return null;
+  const raw = value as Record<string, unknown>;
+  if (raw.enabled === false) return null;
+  const pulse = Number(raw.pulse_ms);
+  return {
+    pin: Number(raw.pin) === 5 ? 1 : 0,
+    pulseMs: Number.isFinite(pulse) ? Math.max(2, Math.min(510, Math.trunc(pulse))) : 100,
+  };
+}
+
+function parseBuzzerConfig(value: unknown): PrinterBuzzerConfig | null {
+  if (!value) return null;
+  const raw = (typeof value === "object" ? value : { mode: value }) as Record<string, unknown>;
+  if (raw.enabled === false) return null;
+  const mode = String(raw.mode ?? "epson").trim().toLowerCase();
+  if (mode !== "epson" && mode !== "star" && mode !== "true") return null;
+  const beeps = Number(raw.beeps);
+  return {
+    mode: mode === "star" ? "star" : "epson",
+    beeps: Number.isFinite(beeps) ? Math.max(1, Math.min(9, Math.trunc(beeps))) : 2,
+  };
+}
+
+/** ESC p m t1 t2: on time t1 and off time t2 are in 2 ms units. */
+function buildDrawerKickCommand(drawer: CashDrawerConfig) {
+  const ticks = Math.max(1, Math.min(255, Math.round(drawer.pulseMs / 2)));
+  return Buffer.from([0x1b, 0x70, drawer.pin, ticks, Math.min(255, ticks * 2)]);
+}
+
+function buildBuzzerCommand(buzzer: PrinterBuzzerConfig) {
+  if (buzzer.mode === "star") {
+    // ESC GS BEL m t1 t2 fires the external buzzer once (times in 20 ms units), so repeat it.
+    const beep = Buffer.from([0x1b, 0x1d, 0x07, 0x01, 0x0a, 0x0a]);
+    return Buffer.concat(Array.from({ length: buzzer.beeps }, () => beep));
+  }
+  // ESC B n t: n beeps of t x 50 ms.
+  return Buffer.from([0x1b, 0x42, buzzer.beeps, 0x03]);
+}
+
+function paperColumns(profile: PaperProfile) {
+  return profile.font === "a" ? profile.fontAColumns : profile.fontBColumns;
+}
+
 function sanitizePhysicalPort(value: unknown, brand: string) {
   const parsed = Number(value);
   if (Number.isInteger(parsed) && parsed >= 1 && parsed <= 65535) return parsed;
@@ -227,9 +1002,32 @@ function sanitizePhysicalPath(value: unknown, brand = "epson") {
   return pathValue.startsWith("/") ? pathValue : `/${pathValue}`;
 }
 
-function normalizePaymentMethod(value: unknown) {
-  const method = String(value ?? "").trim().toLowerCase();
-  return method === "card" ? "card" : "cash";
+function normalizePaymentMethod(value: unknown): PaymentTenderMethod {
+  const method = String(value ?? "").trim().toLowerCase().replace(/[\s-]+/g, "_");
+  return PAYMENT_TENDER_ALIASES[method] || "cash";
+}
+
+/** Reads `payload.tenders`; older payloads only carry payment_method for the whole total. */
+function readPaymentTenders(payload: Record<string, unknown>): PaymentTender[] {
+  const tenders = (Array.isArray(payload.tenders) ? payload.tenders : [])
+    .map((rawTender) => {
+      const tender = (rawTender && typeof rawTender === "object" ? rawTender : {}) as Record<string, unknown>;
+      return {
+        method: normalizePaymentMethod(tender.method ?? tender.type),
+        cents: toCents(tender.amount),
+        description: String(tender.description ?? "").trim() || null,
+      };
+    })
+    .filter((tender) => tender.cents > 0);
+  if (tenders.length > 0) return tenders;
+  return [{ method: normalizePaymentMethod(payload.payment_method), cents: toCents(payload.total_amount), description: null }];
+}
+
+/** Cash handed back: only cash may exceed the total. */
+function tendersChangeCents(tenders: PaymentTender[], totalCents: number) {
+  const paid = tenders.reduce((sum, tender) => sum + tender.cents, 0);
+  const cash = tenders.reduce((sum, tender) => sum + (tender.method === "cash" ? tender.cents : 0), 0);
+  return paid > totalCents ? Math.min(cash, paid - totalCents) : 0;
 }
 
 function toCents(value: unknown) {
@@ -247,19 +1045,321 @@ function escapeXml(value: unknown) {
     .replaceAll("'", "&apos;");
 }
 
-function buildEpsonFiscalReceiptXml(payload: Record<string, unknown>) {
-  const tableNumber = String(payload?.table_number ?? "").trim() || "-";
-  const paymentMethod = normalizePaymentMethod(payload?.payment_method);
-  const paymentLabel = paymentMethod === "card" ? "ELETTRONICO" : "CONTANTI";
-  const cents = Math.max(1, toCents(payload?.total_amount));
-  const description = `Sushiamo Tavolo ${tableNumber}`;
+const DEFAULT_FISCAL_RT_CONFIG: FiscalRtConfig = {
+  byKey: new Map(),
+  fallback: { department: 1, vatCode: 1 },
+  configured: false,
+};
+
+/** RT printers truncate longer descriptions, and some reject them outright. */
+const FISCAL_DESCRIPTION_MAX = 38;
+
+/** FPMate printRecItemAdjustment types booked on a department. */
+const EPSON_DEPARTMENT_DISCOUNT = 3;
+const EPSON_DEPARTMENT_SURCHARGE = 8;
+
+function parseFiscalRtDepartment(value: unknown): FiscalRtDepartment | null {
+  if (!value || typeof value !== "object") return null;
+  const raw = value as Record<string, unknown>;
+  const department = Number(raw.department);
+  const vatCode = Number(raw.vat_code);
+  if (!Number.isInteger(department) || department < 1 || department > 99) return null;
+  if (!Number.isInteger(vatCode) || vatCode < 0 || vatCode > 99) return null;
+  return { department, vatCode };
+}
+
+/**
+ * Reads `printing.rt_departments`: `{ default: {department, vat_code}, iva_22: {...}, bevande: {...},
+ * cover: {...} }`. Invalid entries are ignored so a typo never blocks the till.
+ */
+function parseFiscalRtConfig(value: unknown): FiscalRtConfig {
+  if (!value || typeof value !== "object") return DEFAULT_FISCAL_RT_CONFIG;
+  const byKey = new Map<string, FiscalRtDepartment>();
+  let fallback = DEFAULT_FISCAL_RT_CONFIG.fallback;
+  for (const [rawKey, rawEntry] of Object.entries(value as Record<string, unknown>)) {
+    const key = rawKey.trim().toLowerCase();
+    const entry = parseFiscalRtDepartment(rawEntry);
+    if (!key || !entry) continue;
+    if (key === "default") fallback = entry;
+    else byKey.set(key, entry);
+  }
+  return { byKey, fallback, configured: true };
+}
+
+/** VAT rate as a percentage: clients send either 22 or 0.22. */
+function fiscalVatPercent(value: unknown) {
+  const rate = Number(value);
+  if (!Number.isFinite(rate) || rate < 0) return NaN;
+  return rate > 0 && rate < 1 ? Number((rate * 100).toFixed(2)) : rate;
+}
+
+function fiscalRtForItem(item: Record<string, unknown>, config: FiscalRtConfig) {
+  const vatRate = fiscalVatPercent(item.vat_rate ?? item.vat);
+  const candidates = [
+    Number.isFinite(vatRate) && vatRate >= 0 ? `iva_${vatRate}` : "",
+    String(item.category ?? "").trim().toLowerCase(),
+    itemDepartment(item, ""),
+  ];
+  for (const key of candidates) {
+    const mapped = key ? config.byKey.get(key) : null;
+    if (mapped) return mapped;
+  }
+  return config.fallback;
+}
+
+function fiscalDescription(value: unknown) {
+  return String(value ?? "").trim().replace(/\s+/g, " ").slice(0, FISCAL_DESCRIPTION_MAX);
+}
+
+function readFiscalAdjustments(list: unknown, amount: unknown, label: string) {
+  const entries = Array.isArray(list) ? list : [{ amount }];
+  return entries
+    .map((rawEntry) => {
+      const entry = (rawEntry && typeof rawEntry === "object" ? rawEntry : {}) as Record<string, unknown>;
+      return {
+        description: fiscalDescription(entry.description ?? entry.label) || label,
+        cents: toCents(entry.amount),
+      };
+    })
+    .filter((entry) => entry.cents > 0);
+}
+
+/**
+ * Splits a receipt-wide adjustment across RT departments pro rata on what each one actually
+ * charged (item discounts included), so each VAT rate gets its share.
+ */
+function apportionFiscalAdjustment(amountCents: number, lines: FiscalReceiptLine[]) {
+  const groups = new Map<string, { rt: FiscalRtDepartment; cents: number }>();
+  for (const line of lines) {
+    const key = `${line.rt.department}:${line.rt.vatCode}`;
+    const group = groups.get(key) || { rt: line.rt, cents: 0 };
+    if (line.type === "item") group.cents += line.unitCents * line.quantity;
+    else group.cents += line.surcharge ? line.amountCents : -line.amountCents;
+    groups.set(key, group);
+  }
+  const rows = Array.from(groups.values()).filter((row) => row.cents > 0);
+  const base = rows.reduce((sum, row) => sum + row.cents, 0);
+  let left = amountCents;
+  return rows
+    .map((row, index) => {
+      const share = index === rows.length - 1 ? left : Math.round((amountCents * row.cents) / base);
+      left -= share;
+      return { rt: row.rt, cents: share };
+    })
+    .filter((row) => row.cents > 0);
+}
+
+/**
+ * One fiscal line per priced item; AYCE and cover (and extras when items carry no price) are
+ * booked as blocks, matching the non-fiscal receipt. Throws when the lines do not add up to
+ * `total_amount`: a wrong fiscal document cannot be taken back.
+ */
+function buildFiscalReceiptLines(payload: Record<string, unknown>, config: FiscalRtConfig) {
+  const lines: FiscalReceiptLine[] = [];
+  const pushBlock = (key: string, description: string, value: unknown) => {
+    const cents = toCents(value);
+    if (cents <= 0) return;
+    lines.push({ type: "item", description, quantity: 1, unitCents: cents, rt: config.byKey.get(key) || config.fallback });
+  };
+
+  pushBlock("ayce", "AYCE", payload.ayce_total);
+  pushBlock("cover", "Coperto", payload.cover_total);
+
+  const items = (Array.isArray(payload.items) ? payload.items : []).map(
+    (rawItem) => (rawItem && typeof rawItem === "object" ? rawItem : {}) as Record<string, unknown>,
+  );
+  const pricedItems = items.filter((item) => toCents(item.unit_price ?? item.price) > 0);
+  if (pricedItems.length === 0) pushBlock("extras", "Extra", payload.extras_total);
+  for (const item of pricedItems) {
+    const rt = fiscalRtForItem(item, config);
+    lines.push({
+      type: "item",
+      description: fiscalDescription(prettifyDishName(item.name)) || "Articolo",
+      quantity: Math.max(1, Math.trunc(Number(item.quantity) || 1)),
+      unitCents: toCents(item.unit_price ?? item.price),
+      rt,
+    });
+    const discount = toCents(item.discount_amount);
+    if (discount > 0) {
+      lines.push({ type: "adjustment", description: "Sconto", amountCents: discount, surcharge: false, rt });
+    }
+  }
+
+  if (lines.length === 0) {
+    // Older clients only send the total: keep the single line they always got.
+    const tableNumber = String(payload.table_number ?? "").trim() || "-";
+    pushBlock("default", `Sushiamo Tavolo ${tableNumber}`, payload.total_amount);
+  }
+
+  const adjustments = [
+    ...readFiscalAdjustments(payload.discounts, payload.discount_amount, "Sconto").map((entry) => ({
+      ...entry,
+      surcharge: false,
+    })),
+    ...readFiscalAdjustments(payload.surcharges, payload.surcharge_amount, "Maggiorazione").map((entry) => ({
+      ...entry,
+      surcharge: true,
+    })),
+  ];
+  const itemLines = [...lines];
+  for (const adjustment of adjustments) {
+    for (const share of apportionFiscalAdjustment(adjustment.cents, itemLines)) {
+      lines.push({
+        type: "adjustment",
+        description: adjustment.description,
+        amountCents: share.cents,
+        surcharge: adjustment.surcharge,
+        rt: share.rt,
+      });
+    }
+  }
+
+  const totalCents = toCents(payload.total_amount);
+  if (totalCents <= 0) throw new Error("FISCAL_TOTAL_MISSING");
+  const linesCents = lines.reduce((sum, line) => {
+    if (line.type === "item") return sum + line.unitCents * line.quantity;
+    return sum + (line.surcharge ? line.amountCents : -line.amountCents);
+  }, 0);
+  if (linesCents !== totalCents) {
+    throw new Error(
+      `FISCAL_TOTAL_MISMATCH: righe ${formatCurrency(linesCents / 100)} / totale ${formatCurrency(totalCents / 100)}`,
+    );
+  }
+  return { lines, totalCents };
+}
+
+function buildEpsonFiscalReceiptTotals(payload: Record<string, unknown>, totalCents: number) {
+  const tenders = readPaymentTenders(payload);
+  const paid = tenders.reduce((sum, tender) => sum + tender.cents, 0);
+  if (paid - tendersChangeCents(tenders, totalCents) !== totalCents) {
+    throw new Error(`FISCAL_TENDERS_MISMATCH: pagato ${formatCurrency(paid / 100)} / totale ${formatCurrency(totalCents / 100)}`);
+  }
+  const order = Object.keys(EPSON_PAYMENT_TENDERS);
+  return [...tenders]
+    .sort((a, b) => order.indexOf(a.method) - order.indexOf(b.method))
+    .map((tender) => {
+      const epson = EPSON_PAYMENT_TENDERS[tender.method];
+      const description = fiscalDescription(tender.description) || epson.description;
+      return `  <printRecTotal description="${escapeXml(description)}" payment="${tender.cents}" paymentType="${epson.paymentType}" index="${epson.index}"/>\n`;
+    })
+    .join("");
+}
+
+function buildEpsonFiscalReceiptXml(payload: Record<string, unknown>, config: FiscalRtConfig = DEFAULT_FISCAL_RT_CONFIG) {
+  const { lines, totalCents } = buildFiscalReceiptLines(payload || {}, config);
+  const totals = buildEpsonFiscalReceiptTotals(payload || {}, totalCents);
+  const body = lines
+    .map((line) =>
+      line.type === "item"
+        ? `  <printRecItem description="${escapeXml(line.description)}" price="${line.unitCents}" quantity="${line.quantity}" department="${line.rt.department}" vatCode="${line.rt.vatCode}"/>\n`
+        : `  <printRecItemAdjustment description="${escapeXml(line.description)}" adjustmentType="${line.surcharge ? EPSON_DEPARTMENT_SURCHARGE : EPSON_DEPARTMENT_DISCOUNT}" amount="${line.amountCents}" department="${line.rt.department}"/>\n`,
+    )
+    .join("");
+
+  return (
+    `<?xml version="1.0" encoding="UTF-8"?>\n` +
+    `<FPMessage>\n` +
+    `  <beginFiscalReceipt operator="1"/>\n` +
+    body +
+    totals +
+    `  <endFiscalReceipt/>\n` +
+    `</FPMessage>`
+  );
+}
+
+function physicalDocumentType(payload: Record<string, unknown>): PhysicalDocumentType {
+  const type = String(payload.document_type ?? payload.type ?? "").trim().toLowerCase();
+  if (type === "annullo" || type === "void") return "void";
+  if (type === "reso" || type === "refund") return "refund";
+  return "sale";
+}
+
+function formatFiscalDocumentDate(value: unknown) {
+  const raw = String(value ?? "").trim();
+  if (/^\d{8}$/.test(raw)) return raw;
+  const iso = raw.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  if (iso) return `${iso[3]}${iso[2]}${iso[1]}`;
+  // FPMate answers with d/m/yyyy.
+  const slashed = raw.match(/^(\d{1,2})\/(\d{1,2})\/(\d{4})$/);
+  if (slashed) return `${slashed[1].padStart(2, "0")}${slashed[2].padStart(2, "0")}${slashed[3]}`;
+  const date = new Date(raw);
+  if (!raw || Number.isNaN(date.getTime())) return null;
+  const day = String(date.getDate()).padStart(2, "0");
+  const month = String(date.getMonth() + 1).padStart(2, "0");
+  return `${day}${month}${date.getFullYear()}`;
+}
+
+/**
+ * Reads the original document from the payload. What the RT reported when the sale was
+ * issued here (local ledger) fills whatever the payload leaves out, then the receipt id
+ * ("zzzz-nnnn") for the numbers. The date is always the RT's, never the PC clock.
+ */
+function parseFiscalDocumentRef(payload: Record<string, unknown>, original: LedgerEntry | null): FiscalDocumentRef {
+  const route = (payload.route && typeof payload.route === "object" ? payload.route : {}) as Record<string, unknown>;
+  const issued = original?.fiscalDocument ?? null;
+  const receiptId = String(payload.original_receipt_id ?? original?.receiptId ?? "")
+    .trim()
+    .match(/^(\d{1,4})\D+(\d{1,4})$/);
+  const zNumber = Number(payload.original_z_number ?? issued?.zNumber ?? receiptId?.[1]);
+  const documentNumber = Number(payload.original_document_number ?? issued?.documentNumber ?? receiptId?.[2]);
+  const date = formatFiscalDocumentDate(payload.original_date ?? issued?.date);
+  const serial = String(payload.original_rt_serial ?? route.serial_number ?? route.serial ?? "").trim().toUpperCase();
+  const inRange = (value: number) => Number.isInteger(value) && value >= 1 && value <= 9999;
+  if (!inRange(zNumber) || !inRange(documentNumber)) throw new Error("FISCAL_ORIGINAL_DOCUMENT_NUMBER_MISSING");
+  if (!date) throw new Error("FISCAL_ORIGINAL_DOCUMENT_DATE_MISSING");
+  if (!/^[0-9A-Z]{6,16}$/.test(serial)) throw new Error("FISCAL_ORIGINAL_RT_SERIAL_MISSING");
+  return { zNumber, documentNumber, date, serial };
+}
+
+function formatFiscalDocumentRef(command: "VOID" | "REFUND", ref: FiscalDocumentRef) {
+  const zNumber = String(ref.zNumber).padStart(4, "0");
+  const documentNumber = String(ref.documentNumber).padStart(4, "0");
+  return `${command} ${zNumber} ${documentNumber} ${ref.date} ${ref.serial}`;
+}
+
+/** An annullo cancels the whole original sale: the RT needs only the reference message. */
+function buildEpsonVoidXml(ref: FiscalDocumentRef) {
+  return (
+    `<?xml version="1.0" encoding="UTF-8"?>\n` +
+    `<FPMessage>\n` +
+    `  <printRecMessage operator="1" messageType="4" message="${escapeXml(formatFiscalDocumentRef("VOID", ref))}"/>\n` +
+    `</FPMessage>`
+  );
+}
+
+/**
+ * A reso lists what goes back. Discounts cannot be refunded as such, so when the sale had
+ * adjustments the refund is booked as one net line per RT department.
+ */
+function buildEpsonRefundXml(payload: Record<string, unknown>, config: FiscalRtConfig, ref: FiscalDocumentRef) {
+  const { lines, totalCents } = buildFiscalReceiptLines(payload, config);
+  const totals = buildEpsonFiscalReceiptTotals(payload, totalCents);
+  let refunds = lines.flatMap((line) => (line.type === "item" ? [line] : []));
+  if (refunds.length !== lines.length) {
+    const byRt = new Map<string, Extract<FiscalReceiptLine, { type: "item" }>>();
+    for (const line of lines) {
+      const key = `${line.rt.department}:${line.rt.vatCode}`;
+      const row = byRt.get(key) || { type: "item", description: "Reso", quantity: 1, unitCents: 0, rt: line.rt };
+      if (line.type === "item") row.unitCents += line.unitCents * line.quantity;
+      else row.unitCents += line.surcharge ? line.amountCents : -line.amountCents;
+      byRt.set(key, row);
+    }
+    refunds = Array.from(byRt.values()).filter((row) => row.unitCents > 0);
+  }
+  const body = refunds
+    .map(
+      (line) =>
+        `  <printRecRefund description="${escapeXml(line.description)}" price="${line.unitCents}" quantity="${line.quantity}" department="${line.rt.department}" vatCode="${line.rt.vatCode}"/>\n`,
+    )
+    .join("");
 
   return (
     `<?xml version="1.0" encoding="UTF-8"?>\n` +
     `<FPMessage>\n` +
+    `  <printRecMessage operator="1" messageType="4" message="${escapeXml(formatFiscalDocumentRef("REFUND", ref))}"/>\n` +
     `  <beginFiscalReceipt operator="1"/>\n` +
-    `  <printRecItem description="${escapeXml(description)}" price="${cents}" quantity="1" department="1" vatCode="1"/>\n` +
-    `  <printRecTotal description="${paymentLabel}" payment="${cents}"/>\n` +
+    body +
+    totals +
     `  <endFiscalReceipt/>\n` +
     `</FPMessage>`
   );
@@ -286,65 +1386,463 @@ function buildNonFiscalTestXml() {
   );
 }
 
-function extractReceiptIdFromResponse(responseText: string) {
-  const text = String(responseText || "");
-  if (!text) return null;
-  const patterns = [
-    /receipt[_\s-]?id["'\s:=]+([A-Za-z0-9._:/-]+)/i,
-    /document[_\s-]?number["'\s:=]+([A-Za-z0-9._:/-]+)/i,
-    /progressive[_\s-]?number["'\s:=]+([A-Za-z0-9._:/-]+)/i,
-  ];
-  for (const pattern of patterns) {
-    const match = text.match(pattern);
-    if (match?.[1]) return match[1].trim();
-  }
+function normalizeFiscalReportType(value: unknown): FiscalReportType | null {
+  const type = String(value ?? "").trim().toLowerCase();
+  if (type === "z" || type === "z_report" || type === "chiusura") return "z";
+  if (type === "x" || type === "x_report" || type === "lettura") return "x";
   return null;
 }
 
-function normalizeDepartment(value: unknown) {
-  const dep = String(value ?? "").trim().toLowerCase();
-  return dep || "cucina";
+/** Same FPMessage envelope as receipts, so the RT answers with the usual response and addInfo. */
+function buildEpsonFiscalReportXml(type: FiscalReportType) {
+  const command = type === "z" ? "printZReport" : "printXReport";
+  return (
+    `<?xml version="1.0" encoding="UTF-8"?>\n` +
+    `<FPMessage>\n` +
+    `  <${command} operator="1"/>\n` +
+    `</FPMessage>`
+  );
 }
 
-function toSessionSnapshot(raw: unknown): SessionSnapshot | null {
-  if (!raw || typeof raw !== "object") return null;
-  const session = raw as Record<string, unknown>;
-  const accessToken = String(session.access_token || "").trim();
-  const refreshToken = String(session.refresh_token || "").trim();
-  if (!accessToken || !refreshToken) return null;
-  const expiresAt = Number(session.expires_at);
-  return {
-    access_token: accessToken,
-    refresh_token: refreshToken,
-    expires_at: Number.isFinite(expiresAt) ? Math.trunc(expiresAt) : null,
-  };
+/** RT amounts come back either as "1234.50" or in Italian format "1.234,50". */
+function parseFpMateAmount(value: string | null) {
+  if (!value) return null;
+  const normalized = value.includes(",") ? value.replaceAll(".", "").replace(",", ".") : value;
+  const amount = Number(normalized);
+  return Number.isFinite(amount) ? amount : null;
 }
 
-function sameSession(a: SessionSnapshot | null, b: SessionSnapshot | null) {
-  if (!a && !b) return true;
-  if (!a || !b) return false;
-  return a.access_token === b.access_token && a.refresh_token === b.refresh_token && Number(a.expires_at || 0) === Number(b.expires_at || 0);
+function decodeXmlText(value: string) {
+  return value
+    .replaceAll("&lt;", "<")
+    .replaceAll("&gt;", ">")
+    .replaceAll("&quot;", '"')
+    .replaceAll("&apos;", "'")
+    .replaceAll("&amp;", "&");
 }
 
-function sleep(ms: number) {
-  return new Promise((resolve) => setTimeout(resolve, ms));
+function readXmlAttribute(attributes: string, name: string) {
+  const match = attributes.match(new RegExp(`\\b${name}\\s*=\\s*"([^"]*)"`, "i"));
+  return match ? decodeXmlText(match[1]) : null;
 }
 
-function shouldRetryPrintLocally(error: unknown) {
-  const message = normalizeError(error).toLowerCase();
-  return (
-    message.includes("timeout") ||
-    message.includes("econnreset") ||
-    message.includes("ehostunreach") ||
-    message.includes("econnrefused") ||
-    message.includes("epipe")
-  );
+/**
+ * Decodes the five `printerStatus` digits: printer, electronic journal, cash drawer,
+ * document and operating mode.
+ */
+function parseFpMatePrinterStatus(raw: string | undefined): FpMatePrinterStatus | null {
+  const digits = String(raw ?? "").trim();
+  if (!/^[0-9A-F]{5}$/i.test(digits)) return null;
+  const printer = FPMATE_PRINTER_STATES[digits[0]] || "unknown";
+  const journal = FPMATE_JOURNAL_STATES[digits[1]] || "unknown";
+  const warnings: string[] = [];
+  if (printer === "paper_low") warnings.push("carta in esaurimento");
+  if (printer === "offline") warnings.push("stampante offline (carta finita o coperchio aperto)");
+  if (journal === "near_full") warnings.push("giornale elettronico quasi pieno");
+  if (journal === "full") warnings.push("giornale elettronico esaurito");
+  if (journal === "unformatted") warnings.push("giornale elettronico da formattare");
+  if (journal === "previous" || journal === "foreign") warnings.push("giornale elettronico non valido per questo misuratore");
+  return {
+    raw: digits,
+    printer,
+    journal,
+    drawerOpen: digits[2] === "0",
+    documentOpen: digits[3] !== "1" && digits[3] !== "4",
+    mode: FPMATE_MODES[digits[4]] || "unknown",
+    warnings,
+  };
 }
 
-function openRawSocket(host: string, port: number, payload: Buffer, timeoutMs = 25000) {
-  return new Promise<void>((resolve, reject) => {
+/**
+ * Parses the FPMate `<response success code status>` envelope (bare or inside SOAP) and its
+ * `addInfo` fields. Returns null when the body is not an FPMate response at all.
+ */
+function parseFpMateResponse(responseText: string): FpMateResponse | null {
+  const text = String(responseText || "");
+  const envelope = text.match(/<(?:\w+:)?response\b([^>]*)>/i);
+  if (!envelope) return null;
+  const attributes = envelope[1];
+  const addInfo: Record<string, string> = {};
+  const addInfoBody = text.match(/<(?:\w+:)?addInfo>([\s\S]*?)<\/(?:\w+:)?addInfo>/i)?.[1] || "";
+  for (const field of addInfoBody.matchAll(/<(\w+)>([^<]*)<\/\1>/g)) {
+    addInfo[field[1]] = decodeXmlText(field[2]).trim();
+  }
+  const success = String(readXmlAttribute(attributes, "success")).toLowerCase() === "true";
+  const code = String(readXmlAttribute(attributes, "code") ?? "").trim();
+  const statusAttribute = readXmlAttribute(attributes, "status");
+  const status = statusAttribute == null ? Number.NaN : Number(statusAttribute);
+  const printerStatus = parseFpMatePrinterStatus(addInfo.printerStatus);
+  let error: string | null = null;
+  if (!success) {
+    const reason = FPMATE_ERROR_MESSAGES[code.toUpperCase()] || (code ? `errore ${code}` : "comando rifiutato");
+    const details = printerStatus?.warnings.length ? ` (${printerStatus.warnings.join(", ")})` : "";
+    error = `RT: ${reason}${details}${code ? ` [${code}]` : ""}`;
+  }
+  return {
+    success,
+    code,
+    status: Number.isFinite(status) ? status : null,
+    addInfo,
+    fiscalReceiptNumber: addInfo.fiscalReceiptNumber || null,
+    fiscalReceiptAmount: parseFpMateAmount(addInfo.fiscalReceiptAmount || null),
+    fiscalReceiptDate: formatFiscalDocumentDate(addInfo.fiscalReceiptDate || null),
+    zRepNumber: addInfo.zRepNumber || null,
+    dailyAmount: parseFpMateAmount(addInfo.dailyAmount || null),
+    printerStatus,
+    error,
+  };
+}
+
+/**
+ * Document id in the "zzzz-nnnn" form printed on RT receipts and read back by annullo/reso;
+ * null without both numbers, since a bare document number cannot identify the sale later.
+ */
+function fpMateDocumentId(response: FpMateResponse) {
+  if (!response.fiscalReceiptNumber || !response.zRepNumber) return null;
+  return `${response.zRepNumber.padStart(4, "0")}-${response.fiscalReceiptNumber.padStart(4, "0")}`;
+}
+
+function issuedFiscalDocument(response: FpMateResponse): IssuedFiscalDocument | null {
+  const readNumber = (value: string | null) => {
+    const n = Number(value);
+    return value && Number.isInteger(n) && n >= 1 && n <= 9999 ? n : null;
+  };
+  const document = {
+    zNumber: readNumber(response.zRepNumber),
+    documentNumber: readNumber(response.fiscalReceiptNumber),
+    date: response.fiscalReceiptDate,
+  };
+  return document.zNumber == null && document.documentNumber == null && !document.date ? null : document;
+}
+
+function physicalLaneKey(rawPayload: Record<string, unknown> | null) {
+  const payload = (rawPayload && typeof rawPayload === "object" ? rawPayload : {}) as Record<string, unknown>;
+  const route = (payload.route && typeof payload.route === "object" ? payload.route : {}) as Record<string, unknown>;
+  const brand = normalizePhysicalBrand(route.brand);
+  return `rt:${String(route.host ?? "").trim()}:${sanitizePhysicalPort(route.port, brand)}`;
+}
+
+function fiscalReportMeta(report: FiscalReportResult) {
+  return {
+    report_type: report.type,
+    closure_number: report.closureNumber,
+    daily_amount: report.dailyAmount,
+    printed_at: report.printedAt,
+  };
+}
+
+function normalizeDepartment(value: unknown) {
+  const dep = String(value ?? "").trim().toLowerCase();
+  return dep || "cucina";
+}
+
+function spoolKey(kind: SpoolJobKind, jobId: string) {
+  return `${kind}:${jobId}`;
+}
+
+function toSpoolEntry(raw: unknown): SpoolEntry | null {
+  if (!raw || typeof raw !== "object") return null;
+  const row = raw as Record<string, unknown>;
+  const kind = String(row.kind || "") as SpoolJobKind;
+  if (!SPOOL_JOB_KINDS.includes(kind)) return null;
+  const jobId = String(row.jobId || "").trim();
+  if (!jobId) return null;
+  const rawOutcome = row.outcome && typeof row.outcome === "object" ? (row.outcome as Record<string, unknown>) : null;
+  return {
+    kind,
+    jobId,
+    claimedAt: String(row.claimedAt || "") || new Date().toISOString(),
+    outcome: rawOutcome
+      ? {
+          success: rawOutcome.success === true,
+          error: rawOutcome.error == null ? null : String(rawOutcome.error),
+          receiptId: rawOutcome.receiptId == null ? null : String(rawOutcome.receiptId),
+          meta:
+            rawOutcome.meta && typeof rawOutcome.meta === "object" ? (rawOutcome.meta as Record<string, unknown>) : null,
+          finishedAt: String(rawOutcome.finishedAt || "") || new Date().toISOString(),
+        }
+      : null,
+    ackAttempts: Math.max(0, Math.trunc(Number(row.ackAttempts) || 0)),
+    nextAckAt: row.nextAckAt ? String(row.nextAckAt) : null,
+    lastAckError: row.lastAckError ? String(row.lastAckError) : null,
+  };
+}
+
+function toLedgerEntry(raw: unknown): LedgerEntry | null {
+  if (!raw || typeof raw !== "object") return null;
+  const row = raw as Record<string, unknown>;
+  const kind = String(row.kind || "") as SpoolJobKind;
+  if (!SPOOL_JOB_KINDS.includes(kind)) return null;
+  const jobId = String(row.jobId || "").trim();
+  const printedAt = String(row.printedAt || "").trim();
+  if (!jobId || Number.isNaN(new Date(printedAt).getTime())) return null;
+  return {
+    kind,
+    jobId,
+    printedAt,
+    receiptId: row.receiptId == null ? null : String(row.receiptId),
+    orderRef: row.orderRef == null ? null : String(row.orderRef),
+    meta: row.meta && typeof row.meta === "object" ? (row.meta as Record<string, unknown>) : null,
+    fiscalDocument: toIssuedFiscalDocument(row.fiscalDocument),
+  };
+}
+
+function toIssuedFiscalDocument(raw: unknown): IssuedFiscalDocument | null {
+  if (!raw || typeof raw !== "object") return null;
+  const row = raw as Record<string, unknown>;
+  const readNumber = (value: unknown) => (Number.isInteger(value) ? (value as number) : null);
+  return {
+    zNumber: readNumber(row.zNumber),
+    documentNumber: readNumber(row.documentNumber),
+    date: typeof row.date === "string" && /^\d{8}$/.test(row.date) ? row.date : null,
+  };
+}
+
+function spoolAckBackoffMs(attempts: number) {
+  return Math.min(SPOOL_ACK_BACKOFF_MAX_MS, SPOOL_ACK_BACKOFF_BASE_MS * 2 ** Math.max(0, attempts - 1));
+}
+
+async function writeJsonFileAtomic(filePath: string, value: unknown) {
+  await fs.mkdir(path.dirname(filePath), { recursive: true });
+  const tmpPath = `${filePath}.tmp`;
+  await fs.writeFile(tmpPath, `${JSON.stringify(value, null, 2)}\n`, "utf8");
+  await fs.rename(tmpPath, filePath);
+}
+
+function toSessionSnapshot(raw: unknown): SessionSnapshot | null {
+  if (!raw || typeof raw !== "object") return null;
+  const session = raw as Record<string, unknown>;
+  const accessToken = String(session.access_token || "").trim();
+  const refreshToken = String(session.refresh_token || "").trim();
+  if (!accessToken || !refreshToken) return null;
+  const expiresAt = Number(session.expires_at);
+  return {
+    access_token: accessToken,
+    refresh_token: refreshToken,
+    expires_at: Number.isFinite(expiresAt) ? Math.trunc(expiresAt) : null,
+  };
+}
+
+function sameSession(a: SessionSnapshot | null, b: SessionSnapshot | null) {
+  if (!a && !b) return true;
+  if (!a || !b) return false;
+  return a.access_token === b.access_token && a.refresh_token === b.refresh_token && Number(a.expires_at || 0) === Number(b.expires_at || 0);
+}
+
+function sleep(ms: number) {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+function shouldRetryPrintLocally(error: unknown) {
+  const message = normalizeError(error).toLowerCase();
+  return (
+    message.includes("timeout") ||
+    message.includes("econnreset") ||
+    message.includes("ehostunreach") ||
+    message.includes("econnrefused") ||
+    message.includes("enetunreach") ||
+    message.includes("epipe") ||
+    message.includes("printer_not_ready") ||
+    message.includes(HELD_DROPPED_ERROR.toLowerCase())
+  );
+}
+
+function printerTargetKey(target: PrinterTarget) {
+  return `${target.host}:${target.port}`;
+}
+
+function toPrinterTarget(printer: LivePrinter): PrinterTarget {
+  return {
+    id: printer.id,
+    name: printer.name,
+    host: printer.host,
+    port: printer.port,
+    statusMode: printer.statusMode,
+    copies: printer.copies,
+    mandatory: printer.mandatory,
+    paper: printer.paper,
+    encoding: printer.encoding,
+    drawer: printer.drawer,
+    buzzer: printer.buzzer,
+  };
+}
+
+function sanitizePrinterStatusMode(value: unknown): PrinterStatusMode {
+  const mode = String(value ?? "").trim().toLowerCase();
+  return mode === "query" || mode === "asb" ? mode : "off";
+}
+
+function describePrinterStatus(flags: Omit<PrinterStatusSnapshot, "state" | "message">): PrinterStatusSnapshot {
+  let state: PrinterState = "ok";
+  let message = "Pronta";
+  if (flags.unrecoverableError) {
+    state = "fault";
+    message = "Errore non recuperabile";
+  } else if (flags.coverOpen) {
+    state = "cover_open";
+    message = "Coperchio aperto";
+  } else if (flags.paperOut) {
+    state = "paper_out";
+    message = "Carta esaurita";
+  } else if (flags.cutterError) {
+    state = "cutter_error";
+    message = "Errore taglierina";
+  } else if (!flags.online || flags.recoverableError) {
+    state = "offline";
+    message = "Stampante offline";
+  } else if (flags.paperLow) {
+    state = "paper_low";
+    message = "Carta in esaurimento";
+  }
+  return { ...flags, state, message };
+}
+
+/** Decodes the four replies to DLE EOT 1..4 (printer, offline cause, error cause, paper roll sensor). */
+function decodeDleEotStatus(bytes: Buffer) {
+  const [printer = 0, offline = 0, error = 0, paper = 0] = bytes;
+  return describePrinterStatus({
+    online: (printer & 0x08) === 0,
+    coverOpen: (offline & 0x04) !== 0,
+    paperLow: (paper & 0x0c) !== 0,
+    paperOut: (offline & 0x20) !== 0 || (paper & 0x60) !== 0,
+    cutterError: (error & 0x08) !== 0,
+    recoverableError: (error & 0x40) !== 0,
+    unrecoverableError: (error & 0x20) !== 0,
+  });
+}
+
+/** Decodes the 4-byte Automatic Status Back block sent after GS a. */
+function decodeAsbStatus(bytes: Buffer) {
+  const [first = 0, second = 0, third = 0] = bytes;
+  return describePrinterStatus({
+    online: (first & 0x08) === 0,
+    coverOpen: (first & 0x20) !== 0,
+    paperLow: (third & 0x03) !== 0,
+    paperOut: (third & 0x0c) !== 0,
+    cutterError: (second & 0x08) !== 0,
+    recoverableError: (second & 0x40) !== 0,
+    unrecoverableError: (second & 0x20) !== 0,
+  });
+}
+
+/** Merges the GS r 1 paper sensor reply (sent after the ticket, so it reflects the roll once printed). */
+function applyPaperSensorStatus(status: PrinterStatusSnapshot, sensor: number) {
+  return describePrinterStatus({
+    ...status,
+    paperLow: (sensor & 0x03) !== 0,
+    paperOut: (sensor & 0x0c) !== 0,
+  });
+}
+
+function isBlockingPrinterStatus(status: PrinterStatusSnapshot) {
+  return status.state !== "ok" && status.state !== "paper_low";
+}
+
+function createSocketReader(socket: net.Socket) {
+  let buffered = Buffer.alloc(0);
+  let notify: (() => void) | null = null;
+  socket.on("data", (chunk: Buffer) => {
+    buffered = Buffer.concat([buffered, chunk]);
+    notify?.();
+  });
+  return {
+    discard() {
+      buffered = Buffer.alloc(0);
+    },
+    async read(length: number, timeoutMs: number) {
+      const deadline = Date.now() + timeoutMs;
+      while (buffered.length < length) {
+        const remaining = deadline - Date.now();
+        if (remaining <= 0) return null;
+        await new Promise<void>((resolve) => {
+          const timer = setTimeout(() => {
+            notify = null;
+            resolve();
+          }, remaining);
+          notify = () => {
+            clearTimeout(timer);
+            notify = null;
+            resolve();
+          };
+        });
+      }
+      const chunk = buffered.subarray(0, length);
+      buffered = buffered.subarray(length);
+      return chunk;
+    },
+  };
+}
+
+async function requestPrinterStatus(
+  write: (data: Buffer) => Promise<void>,
+  reader: ReturnType<typeof createSocketReader>,
+  statusMode: Exclude<PrinterStatusMode, "off">,
+) {
+  const DLE = 0x10;
+  const EOT = 0x04;
+  const GS = 0x1d;
+  reader.discard();
+  if (statusMode === "asb") {
+    // Enable ASB for drawer, online, error and paper events: the printer answers with its current status.
+    await write(Buffer.from([GS, 0x61, 0x0f]));
+    const bytes = await reader.read(4, STATUS_QUERY_TIMEOUT_MS);
+    return bytes ? decodeAsbStatus(bytes) : null;
+  }
+  await write(Buffer.from([DLE, EOT, 0x01, DLE, EOT, 0x02, DLE, EOT, 0x03, DLE, EOT, 0x04]));
+  const bytes = await reader.read(4, STATUS_QUERY_TIMEOUT_MS);
+  return bytes ? decodeDleEotStatus(bytes) : null;
+}
+
+/** Connects without printing anything and, where enabled, asks the printer for its status. */
+function queryPrinterStatus(host: string, port: number, statusMode: PrinterStatusMode, timeoutMs: number) {
+  return new Promise<{ reachable: boolean; status: PrinterStatusSnapshot | null; error: string | null }>((resolve) => {
     const socket = new net.Socket();
+    const reader = createSocketReader(socket);
     let done = false;
+    const complete = (result: { reachable: boolean; status: PrinterStatusSnapshot | null; error: string | null }) => {
+      if (done) return;
+      done = true;
+      // Turn ASB back off before hanging up so the printer does not keep pushing status bytes.
+      if (statusMode === "asb" && result.reachable) socket.end(Buffer.from([0x1d, 0x61, 0x00]));
+      else socket.destroy();
+      resolve(result);
+    };
+    const write = (data: Buffer) =>
+      new Promise<void>((resolveWrite, rejectWrite) => {
+        socket.write(data, (error) => (error ? rejectWrite(error) : resolveWrite()));
+      });
+    socket.setNoDelay(true);
+    socket.setTimeout(timeoutMs);
+    socket.once("error", (error) => complete({ reachable: false, status: null, error: normalizeError(error) }));
+    socket.once("timeout", () => complete({ reachable: false, status: null, error: "Timeout stampante" }));
+    socket.connect(port, host, () => {
+      if (statusMode === "off") {
+        complete({ reachable: true, status: null, error: null });
+        return;
+      }
+      requestPrinterStatus(write, reader, statusMode)
+        .then((status) => complete({ reachable: true, status, error: null }))
+        .catch((error) => complete({ reachable: false, status: null, error: normalizeError(error) }));
+    });
+  });
+}
+
+type RawSocketOptions = {
+  timeoutMs?: number;
+  statusMode?: PrinterStatusMode;
+  /** Called with each decoded status; `null` means the printer did not answer the status request. */
+  onStatus?: (status: PrinterStatusSnapshot | null) => void;
+};
+
+function openRawSocket(host: string, port: number, payload: Buffer, options: RawSocketOptions = {}) {
+  const GS = 0x1d;
+  const timeoutMs = options.timeoutMs ?? 25000;
+  const statusMode = options.statusMode ?? "off";
+  return new Promise<void>((resolve, reject) => {
+    const socket = new net.Socket();
+    const reader = createSocketReader(socket);
+    let done = false;
+    let written = false;
     const complete = (error?: Error | null) => {
       if (done) return;
       done = true;
@@ -352,31 +1850,96 @@ function openRawSocket(host: string, port: number, payload: Buffer, timeoutMs =
       if (error) reject(error);
       else resolve();
     };
+    const write = (data: Buffer) =>
+      new Promise<void>((resolveWrite, rejectWrite) => {
+        socket.write(data, (error) => (error ? rejectWrite(error) : resolveWrite()));
+      });
+
+    const run = async () => {
+      let before: PrinterStatusSnapshot | null = null;
+      if (statusMode !== "off") {
+        before = await requestPrinterStatus(write, reader, statusMode);
+        options.onStatus?.(before);
+        if (before?.state === "fault") throw new Error(`PRINTER_FAULT: ${before.message}`);
+        if (before && isBlockingPrinterStatus(before)) throw new Error(`PRINTER_NOT_READY: ${before.message}`);
+      }
+      await write(payload);
+      written = true;
+      if (before) {
+        reader.discard();
+        if (statusMode === "asb") {
+          await write(Buffer.from([GS, 0x61, 0x00]));
+        } else {
+          await write(Buffer.from([GS, 0x72, 0x01]));
+          const sensor = await reader.read(1, STATUS_AFTER_PRINT_TIMEOUT_MS);
+          if (sensor) options.onStatus?.(applyPaperSensorStatus(before, sensor[0]));
+        }
+      }
+      socket.end(() => complete(null));
+    };
+
     socket.setNoDelay(true);
     socket.setTimeout(timeoutMs);
     socket.once("error", (error) => complete(error));
     socket.once("timeout", () => complete(new Error("Timeout stampante")));
     socket.connect(port, host, () => {
-      socket.write(payload, (error) => {
-        if (error) {
-          complete(error);
-          return;
-        }
-        socket.end(() => complete(null));
-      });
+      run().catch((error) => complete(error instanceof Error ? error : new Error(normalizeError(error))));
     });
     socket.once("close", (hadError) => {
       if (hadError) return;
-      if (!done) complete(null);
+      if (!done) complete(written ? null : new Error("ECONNRESET: connessione chiusa dalla stampante"));
     });
   });
 }
 
-function wrapText(input: string, width: number) {
+/** gb18030 and big5 print CJK ideographs and fullwidth forms two columns wide. */
+function usesWideGlyphs(encoding: PrinterEncoding | null | undefined) {
+  return encoding?.name === "gb18030" || encoding?.name === "big5";
+}
+
+function isWideCodePoint(code: number) {
+  return (
+    (code >= 0x1100 && code <= 0x115f) ||
+    (code >= 0x2e80 && code <= 0xa4cf && code !== 0x303f) ||
+    (code >= 0xac00 && code <= 0xd7a3) ||
+    (code >= 0xf900 && code <= 0xfaff) ||
+    (code >= 0xfe30 && code <= 0xfe4f) ||
+    (code >= 0xff00 && code <= 0xff60) ||
+    (code >= 0xffe0 && code <= 0xffe6) ||
+    (code >= 0x20000 && code <= 0x3fffd)
+  );
+}
+
+/** Printed width of text in columns; with wide glyphs East Asian wide characters count twice. */
+function textColumns(text: string, wide: boolean) {
+  if (!wide) return text.length;
+  let columns = 0;
+  for (const char of text) columns += isWideCodePoint(char.codePointAt(0) ?? 0) ? 2 : 1;
+  return columns;
+}
+
+/** Splits a word longer than the line into column-sized pieces (CJK text has no spaces to wrap on). */
+function splitByColumns(word: string, width: number, wide: boolean) {
+  const pieces: string[] = [];
+  let current = "";
+  for (const char of word) {
+    if (current && textColumns(current + char, wide) > width) {
+      pieces.push(current);
+      current = "";
+    }
+    current += char;
+  }
+  if (current) pieces.push(current);
+  return pieces;
+}
+
+function wrapText(input: string, width: number, wide = false) {
   const text = String(input || "").trim();
   if (!text) return [""];
-  if (text.length <= width) return [text];
-  const words = text.split(/\s+/);
+  if (textColumns(text, wide) <= width) return [text];
+  const words = text.split(/\s+/).flatMap((word) =>
+    wide && textColumns(word, wide) > width ? splitByColumns(word, width, wide) : [word],
+  );
   const lines: string[] = [];
   let current = "";
   for (const word of words) {
@@ -384,7 +1947,7 @@ function wrapText(input: string, width: number) {
       current = word;
       continue;
     }
-    if (`${current} ${word}`.length <= width) {
+    if (textColumns(`${current} ${word}`, wide) <= width) {
       current += ` ${word}`;
       continue;
     }
@@ -418,30 +1981,608 @@ function prettifyDishName(value: unknown) {
     .join(" ");
 }
 
-function renderTicket(job: JobRow) {
-  const width = 42;
+function itemDepartment(rawItem: unknown, fallback: string) {
+  const item = (rawItem || {}) as Record<string, unknown>;
+  const raw = item.department ?? item.category_department ?? item.category;
+  return String(raw ?? "").trim() ? normalizeDepartment(raw) : fallback;
+}
+
+function listTemplateFields(text: string) {
+  return Array.from(text.matchAll(/\{([a-z_]+)\}/g), (match) => match[1]);
+}
+
+/** Substitutes {field} placeholders; a line whose placeholders are all empty is dropped (null). */
+function fillTemplateText(text: string, values: Record<string, string>) {
+  const fields = listTemplateFields(text);
+  if (fields.length > 0 && fields.every((field) => !values[field])) return null;
+  return text.replace(/\{([a-z_]+)\}/g, (_match, field: string) => values[field] || "");
+}
+
+function parseTicketBlock(
+  raw: unknown,
+  where: string,
+  kind: TicketTemplateKind,
+  errors: string[],
+): TicketBlock | null {
+  if (!raw || typeof raw !== "object") {
+    errors.push(`${where}: blocco non valido`);
+    return null;
+  }
+  const block = raw as Record<string, unknown>;
+  const readText = (key: string, allowed: string[], fallback?: string) => {
+    const value = block[key] ?? fallback;
+    if (typeof value !== "string") {
+      errors.push(`${where}: campo "${key}" mancante`);
+      return null;
+    }
+    const unknown = listTemplateFields(value).filter((field) => !allowed.includes(field));
+    if (unknown.length > 0) {
+      errors.push(`${where}: segnaposto sconosciuti ${unknown.map((field) => `{${field}}`).join(", ")}`);
+      return null;
+    }
+    return value;
+  };
+  const readSize = (key: string) => {
+    const value = block[key];
+    if (value == null) return "normal";
+    if (typeof value === "string" && value in TICKET_TEXT_SIZES) return value as TicketTextSize;
+    errors.push(`${where}: dimensione "${String(value)}" non valida`);
+    return "normal";
+  };
+  const readAlign = (fallback: TicketAlign) => {
+    if (block.align == null) return fallback;
+    if (TICKET_ALIGNS.includes(block.align as TicketAlign)) return block.align as TicketAlign;
+    errors.push(`${where}: allineamento "${String(block.align)}" non valido`);
+    return fallback;
+  };
+  const readInteger = (key: string, min: number, max: number, fallback: number) => {
+    const value = block[key];
+    if (value == null) return fallback;
+    const n = Number(value);
+    if (Number.isInteger(n) && n >= min && n <= max) return n;
+    errors.push(`${where}: "${key}" deve essere tra ${min} e ${max}`);
+    return fallback;
+  };
+  const { fields, blocks } = TICKET_TEMPLATE_SPECS[kind];
+  const type = String(block.type || "");
+  if (!blocks.includes(type as TicketBlock["type"])) {
+    errors.push(`${where}: tipo "${type}" non valido`);
+    return null;
+  }
+  if (type === "text") {
+    const text = readText("text", fields);
+    if (text == null) return null;
+    return {
+      type,
+      text,
+      bold: block.bold === true,
+      size: readSize("size"),
+      align: readAlign("left"),
+      inverted: block.inverted === true,
+    };
+  }
+  if (type === "qr") {
+    const data = readText("data", fields);
+    if (data == null) return null;
+    const level = String(block.error_correction ?? "M").toUpperCase() as TicketQrLevel;
+    if (!TICKET_QR_LEVELS.includes(level)) {
+      errors.push(`${where}: correzione errore "${String(block.error_correction)}" non valida`);
+    }
+    return {
+      type,
+      data,
+      moduleSize: readInteger("module_size", 1, 16, 6),
+      errorCorrection: TICKET_QR_LEVELS.includes(level) ? level : "M",
+      align: readAlign("center"),
+    };
+  }
+  if (type === "logo") return { type, align: readAlign("center") };
+  if (type === "barcode") {
+    const data = readText("data", fields);
+    if (data == null) return null;
+    return { type, data, height: readInteger("height", 1, 255, 80), hri: block.hri !== false, align: readAlign("center") };
+  }
+  if (type === "row") {
+    const label = readText("label", fields);
+    const value = readText("value", fields);
+    if (label == null || value == null) return null;
+    return { type, label, value, bold: block.bold === true, size: readSize("size") };
+  }
+  if (type === "separator") {
+    const char = String(block.char ?? "-");
+    if (char.length !== 1) {
+      errors.push(`${where}: il separatore deve essere un solo carattere`);
+      return null;
+    }
+    return { type, char };
+  }
+  if (type === "blank") return { type };
+  if (type === "payments") {
+    const label = readText("label", PAYMENT_ROW_FIELDS, "{method}");
+    const value = readText("value", PAYMENT_ROW_FIELDS, "{amount}");
+    if (label == null || value == null) return null;
+    return { type, label, value, bold: block.bold === true, size: readSize("size") };
+  }
+  if (type === "items") {
+    const format = readText("format", KITCHEN_ITEM_FIELDS, "{qty}x {name}");
+    const original = readText("original", KITCHEN_ITEM_FIELDS, "{original_name}");
+    const notes = readText("notes", KITCHEN_ITEM_FIELDS, "Nota: {notes}");
+    const course = readText("course", KITCHEN_COURSE_FIELDS, " {course} ");
+    const held = readText("held", KITCHEN_COURSE_FIELDS, "*** SEGUE ***");
+    const allergens = readText("allergens", KITCHEN_ITEM_FIELDS, "ALLERGENI: {allergens}");
+    const dietary = readText("dietary", KITCHEN_ITEM_FIELDS, "DIETA: {dietary}");
+    const courseChar = String(block.course_char ?? "-");
+    if (courseChar.length !== 1) errors.push(`${where}: il separatore portata deve essere un solo carattere`);
+    if (format == null || original == null || notes == null || course == null || held == null) return null;
+    if (allergens == null || dietary == null) return null;
+    return {
+      type,
+      format,
+      original,
+      notes,
+      bold: block.bold === true,
+      size: readSize("size"),
+      originalBold: block.original_bold === true,
+      originalSize: readSize("original_size"),
+      notesBold: block.notes_bold === true,
+      notesSize: readSize("notes_size"),
+      course,
+      courseChar: courseChar.length === 1 ? courseChar : "-",
+      held,
+      allergens,
+      dietary,
+    };
+  }
+  errors.push(`${where}: tipo "${type}" non valido`);
+  return null;
+}
+
+/** Parses the sections present in a raw template; missing or fully invalid sections are left out. */
+function parseTicketTemplateSections(raw: unknown, where: string, kind: TicketTemplateKind, errors: string[]) {
+  const sections: Partial<TicketTemplate> = {};
+  if (raw == null) return sections;
+  if (typeof raw !== "object") {
+    errors.push(`${where}: template non valido`);
+    return sections;
+  }
+  const source = raw as Record<string, unknown>;
+  for (const section of TICKET_SECTIONS) {
+    const blocksRaw = source[section];
+    if (blocksRaw == null) continue;
+    if (!Array.isArray(blocksRaw)) {
+      errors.push(`${where}.${section}: deve essere una lista di blocchi`);
+      continue;
+    }
+    const blocks = blocksRaw
+      .map((block, index) => parseTicketBlock(block, `${where}.${section}[${index}]`, kind, errors))
+      .filter((block): block is TicketBlock => block != null);
+    if (blocks.length > 0 || blocksRaw.length === 0) sections[section] = blocks;
+  }
+  return sections;
+}
+
+function parseTicketTemplate(
+  raw: unknown,
+  where: string,
+  kind: TicketTemplateKind,
+  base: TicketTemplate,
+  errors: string[],
+): TicketTemplate {
+  const sections = parseTicketTemplateSections(raw, where, kind, errors);
+  return {
+    header: sections.header ?? base.header,
+    body: sections.body ?? base.body,
+    footer: sections.footer ?? base.footer,
+  };
+}
+
+const BUNDLED_KITCHEN_TEMPLATE = parseTicketTemplateSections(DEFAULT_KITCHEN_TEMPLATE, "default", "kitchen", []);
+const BUNDLED_VARIATION_TEMPLATE = parseTicketTemplateSections(
+  DEFAULT_VARIATION_TEMPLATE,
+  "default",
+  "kitchen",
+  [],
+);
+const BUNDLED_NON_FISCAL_RECEIPT_TEMPLATE = parseTicketTemplateSections(
+  DEFAULT_NON_FISCAL_RECEIPT_TEMPLATE,
+  "default",
+  "receipt",
+  [],
+);
+const DEFAULT_TICKET_TEMPLATES: TicketTemplates = {
+  kitchen: { header: [], body: [], footer: [], ...BUNDLED_KITCHEN_TEMPLATE },
+  kitchenByDepartment: new Map(),
+  variation: { header: [], body: [], footer: [], ...BUNDLED_VARIATION_TEMPLATE },
+  nonFiscalReceipt: { header: [], body: [], footer: [], ...BUNDLED_NON_FISCAL_RECEIPT_TEMPLATE },
+};
+
+/**
+ * Reads settings.printing.ticket_templates on top of the bundled layouts. Department
+ * templates override single sections of the kitchen one; invalid blocks are skipped and
+ * reported in errors.
+ */
+function parseTicketTemplates(raw: unknown) {
+  const errors: string[] = [];
+  const source = (raw && typeof raw === "object" ? raw : {}) as Record<string, unknown>;
+  const kitchen = parseTicketTemplate(
+    source.kitchen,
+    "kitchen",
+    "kitchen",
+    DEFAULT_TICKET_TEMPLATES.kitchen,
+    errors,
+  );
+  const kitchenByDepartment = new Map<string, TicketTemplate>();
+  const departmentsRaw =
+    source.departments && typeof source.departments === "object" ? (source.departments as Record<string, unknown>) : {};
+  for (const [rawDep, rawTemplate] of Object.entries(departmentsRaw)) {
+    kitchenByDepartment.set(
+      normalizeDepartment(rawDep),
+      parseTicketTemplate(rawTemplate, `departments.${rawDep}`, "kitchen", kitchen, errors),
+    );
+  }
+  const variation = parseTicketTemplate(
+    source.variation,
+    "variation",
+    "kitchen",
+    DEFAULT_TICKET_TEMPLATES.variation,
+    errors,
+  );
+  const nonFiscalReceipt = parseTicketTemplate(
+    source.non_fiscal_receipt,
+    "non_fiscal_receipt",
+    "receipt",
+    DEFAULT_TICKET_TEMPLATES.nonFiscalReceipt,
+    errors,
+  );
+  const templates: TicketTemplates = { kitchen, kitchenByDepartment, variation, nonFiscalReceipt };
+  return { templates, errors };
+}
+
+function resolveKitchenTemplate(templates: TicketTemplates, department: string) {
+  return templates.kitchenByDepartment.get(department) || templates.kitchen;
+}
+
+function alignTicketText(text: string, align: TicketAlign, columns: number, wide = false) {
+  const used = textColumns(text, wide);
+  if (align === "left" || used >= columns) return text;
+  const pad = columns - used;
+  return " ".repeat(align === "center" ? Math.floor(pad / 2) : pad) + text;
+}
+
+/** Lays out a template into styled lines; double-width text wraps and aligns on half the columns. */
+function renderTicketTemplate(
+  template: TicketTemplate,
+  values: Record<string, string>,
+  items: Array<Record<string, string>>,
+  paper: PaperProfile,
+  options: { logo?: TicketRaster | null; encoding?: PrinterEncoding | null } = {},
+) {
+  const width = paperColumns(paper);
+  const wide = usesWideGlyphs(options.encoding);
+  const logo = options.logo || null;
+  const lines: TicketLine[] = [];
+  const columnsFor = (size: TicketTextSize) => (size === "wide" || size === "large" ? Math.floor(width / 2) : width);
+  for (const block of [...template.header, ...template.body, ...template.footer]) {
+    if (block.type === "separator") {
+      lines.push({ text: block.char.repeat(width), bold: false, size: "normal" });
+    } else if (block.type === "blank") {
+      lines.push({ text: "", bold: false, size: "normal" });
+    } else if (block.type === "text") {
+      const text = fillTemplateText(block.text, values);
+      if (text == null) continue;
+      const columns = columnsFor(block.size);
+      for (const chunk of wrapText(text, columns, wide)) {
+        const aligned = alignTicketText(chunk, block.align, columns, wide);
+        // Inverted lines become a full-width black band instead of a ragged one.
+        const padded = block.inverted ? aligned + " ".repeat(Math.max(0, columns - textColumns(aligned, wide))) : aligned;
+        lines.push({ text: padded, bold: block.bold, size: block.size, inverted: block.inverted });
+      }
+    } else if (block.type === "row") {
+      const value = fillTemplateText(block.value, values);
+      if (value == null) continue;
+      const label = fillTemplateText(block.label, values) || "";
+      lines.push({ text: padRow(label, value, columnsFor(block.size), wide), bold: block.bold, size: block.size });
+    } else if (block.type === "payments") {
+      for (const rowValues of items) {
+        const value = fillTemplateText(block.value, rowValues);
+        if (value == null) continue;
+        const label = fillTemplateText(block.label, rowValues) || "";
+        lines.push({ text: padRow(label, value, columnsFor(block.size), wide), bold: block.bold, size: block.size });
+      }
+    } else if (block.type === "logo") {
+      if (logo) lines.push({ raster: logo, align: block.align });
+    } else if (block.type === "qr" || block.type === "barcode") {
+      const data = fillTemplateText(block.data, values);
+      if (data == null) continue;
+      lines.push({ code: { ...block, data } });
+    } else {
+      const grouped = items.some((itemValues) => itemValues.course);
+      let currentCourse: string | null = null;
+      for (const itemValues of items) {
+        if (grouped && itemValues.course !== currentCourse) {
+          currentCourse = itemValues.course;
+          const heading = fillTemplateText(block.course, { course: (currentCourse || "altro").toUpperCase() }) || "";
+          const rule = Math.max(0, width - textColumns(heading, wide));
+          lines.push({
+            text: `${block.courseChar.repeat(Math.floor(rule / 2))}${heading}${block.courseChar.repeat(Math.ceil(rule / 2))}`,
+            bold: true,
+            size: "normal",
+          });
+          if (itemValues.held) {
+            const held = fillTemplateText(block.held, { course: currentCourse.toUpperCase() });
+            const columns = columnsFor("large");
+            if (held != null) lines.push({ text: alignTicketText(held, "center", columns, wide), bold: true, size: "large" });
+          }
+        }
+        const label = fillTemplateText(block.format, itemValues);
+        if (label != null) {
+          // Cancelled lines of a variation print inverted so nobody cooks them by mistake.
+          const cancelled = Boolean(itemValues.change_cancelled);
+          for (const chunk of wrapText(label, columnsFor(block.size), wide)) {
+            lines.push({ text: chunk, bold: block.bold || cancelled, size: block.size, inverted: cancelled });
+          }
+        }
+        const original = fillTemplateText(block.original, itemValues);
+        if (original != null) {
+          for (const chunk of wrapText(original, columnsFor(block.originalSize) - 1, wide)) {
+            lines.push({ text: ` ${chunk}`, bold: block.originalBold, size: block.originalSize });
+          }
+        }
+        for (const format of [block.allergens, block.dietary]) {
+          const alert = fillTemplateText(format, itemValues);
+          if (alert == null) continue;
+          for (const chunk of wrapText(alert, width - 1, wide)) {
+            lines.push({ text: ` ${chunk}`, bold: true, size: "normal", inverted: true });
+          }
+        }
+        const notes = fillTemplateText(block.notes, itemValues);
+        if (notes != null) {
+          const alert = Boolean(itemValues.notes_alert);
+          for (const chunk of wrapText(notes, columnsFor(block.notesSize) - 1, wide)) {
+            lines.push({ text: ` ${chunk}`, bold: block.notesBold || alert, size: block.notesSize, inverted: alert });
+          }
+        }
+      }
+    }
+  }
+  return lines;
+}
+
+function normalizeDishKey(value: unknown) {
+  return String(value ?? "")
+    .trim()
+    .toLowerCase()
+    .replace(/\s+/g, " ");
+}
+
+/** Looks a dish up by id first, then by its menu name; null when the table has no entry. */
+function translateDishName(rawItem: unknown, translations: Map<string, string>) {
+  if (translations.size === 0) return null;
+  const item = (rawItem || {}) as Record<string, unknown>;
+  for (const key of [item.dish_id, item.menu_item_id, item.product_id]) {
+    const id = normalizeDishKey(key);
+    if (id && translations.has(id)) return translations.get(id) || null;
+  }
+  return translations.get(normalizeDishKey(item.name)) || null;
+}
+
+function parseDishTranslations(raw: unknown) {
+  const translations = new Map<string, string>();
+  if (!raw || typeof raw !== "object") return translations;
+  for (const [key, value] of Object.entries(raw as Record<string, unknown>)) {
+    const name = String(value ?? "").trim();
+    const dishKey = normalizeDishKey(key);
+    if (name && dishKey) translations.set(dishKey, name);
+  }
+  return translations;
+}
+
+function readTagList(value: unknown) {
+  const raw = Array.isArray(value) ? value : typeof value === "string" ? value.split(/[,;]/) : [];
+  return raw
+    .map((entry) => {
+      if (entry && typeof entry === "object") {
+        const tag = entry as Record<string, unknown>;
+        return String(tag.name ?? tag.label ?? tag.code ?? "");
+      }
+      return String(entry ?? "");
+    })
+    .map((entry) => entry.trim())
+    .filter(Boolean);
+}
+
+function foldAccents(text: string) {
+  return text.normalize("NFD").replace(/[\u0300-\u036f]/g, "").toLowerCase();
+}
+
+/**
+ * Keywords found in free-text notes as whole words, ignoring case and accents, so "uova" does
+ * not fire on "nuova" nor "latte" on "lattea". A trailing * lets the keyword end mid-word.
+ */
+function matchAllergenKeywords(notes: string, keywords: string[]) {
+  const normalized = foldAccents(notes);
+  return keywords.filter((keyword) => {
+    const prefix = keyword.endsWith("*");
+    const word = foldAccents(prefix ? keyword.slice(0, -1) : keyword).trim();
+    if (!word) return false;
+    const pattern = word.replace(/[.*+?^${}()|[\]\\]/g, "\\$&").replace(/\s+/g, "\\s+");
+    return new RegExp(`(?<![\\p{L}\\p{N}])${pattern}${prefix ? "" : "(?![\\p{L}\\p{N}])"}`, "u").test(normalized);
+  });
+}
+
+function parseAllergenKeywords(value: unknown) {
+  if (!Array.isArray(value)) return DEFAULT_ALLERGEN_KEYWORDS;
+  return value.map((entry) => String(entry ?? "").trim().toLowerCase()).filter(Boolean);
+}
+
+/** Allergen facts of one item: declared allergens, diet tags and whether its notes mention an allergen. */
+function itemAllergenInfo(item: Record<string, unknown>, keywords: string[]) {
+  const allergens = readTagList(item.allergens ?? item.allergeni);
+  const dietary = readTagList(item.dietary ?? item.diet ?? item.dietary_tags);
+  const noteMatches = matchAllergenKeywords(String(item.notes || ""), keywords);
+  return { allergens, dietary, noteAlert: noteMatches.length > 0 };
+}
+
+/** Items carrying any allergen information, for the job log and p_meta. */
+function countAllergenItems(job: JobRow, keywords: string[]) {
   const payload = (job.payload || {}) as Record<string, unknown>;
   const items = Array.isArray(payload.items) ? payload.items : [];
-  const department = normalizeDepartment(payload.department || job.department);
-  const restaurantName = String(payload.restaurant_name || "").trim() || "Ristorante";
-  const tableLabel = String(payload.table_number || "").trim() || "-";
-  const orderLabel = payload.order_number != null ? `#${String(payload.order_number)}` : "#-";
-  const createdAt = formatTimestamp(payload.created_at || job.created_at);
-  const lines: string[] = [];
-  lines.push(`COMANDA ${department.toUpperCase()} ${orderLabel}`);
-  lines.push(`TAVOLO: ${tableLabel.toUpperCase()}`);
-  if (createdAt) lines.push(`DATA: ${createdAt}`);
-  lines.push("-".repeat(width));
-  for (const rawItem of items) {
-    const item = (rawItem || {}) as Record<string, unknown>;
-    const qty = Math.max(1, Number(item.quantity) || 1);
-    const label = `${qty}x ${prettifyDishName(item.name)}`;
-    for (const chunk of wrapText(label, width)) lines.push(chunk);
-    const notes = String(item.notes || "").trim();
-    if (notes) for (const chunk of wrapText(`Nota: ${notes}`, width - 2)) lines.push(` ${chunk}`);
-  }
-  lines.push(`-- ${restaurantName} --`);
-  return lines.join("\n");
+  return items.filter((rawItem) => {
+    const info = itemAllergenInfo((rawItem || {}) as Record<string, unknown>, keywords);
+    return info.allergens.length > 0 || info.noteAlert;
+  }).length;
+}
+
+function orderRefFromPayload(payload: Record<string, unknown> | null) {
+  const ref = payload?.order_id ?? payload?.order_number;
+  return ref == null ? null : String(ref).trim() || null;
+}
+
+function jobOrderRef(job: JobRow) {
+  return orderRefFromPayload(job.payload);
+}
+
+function isVariationJob(job: JobRow) {
+  const payload = (job.payload || {}) as Record<string, unknown>;
+  const type = String(payload.type ?? payload.kind ?? payload.ticket_type ?? "").trim().toLowerCase();
+  return payload.variation === true || VARIATION_JOB_TYPES.includes(type);
+}
+
+function isCancellationJob(job: JobRow) {
+  const payload = (job.payload || {}) as Record<string, unknown>;
+  const type = String(payload.type ?? payload.kind ?? payload.ticket_type ?? "").trim().toLowerCase();
+  return payload.cancelled === true || type === "cancellation" || type === "storno";
+}
+
+/**
+ * Describes how an item changed in a variation: an explicit change type, otherwise the
+ * difference between previous_quantity and quantity. Items of a cancelled order are all removed.
+ */
+function describeItemChange(item: Record<string, unknown>, cancelled: boolean) {
+  const quantity = Math.max(0, Math.trunc(Number(item.quantity) || 0));
+  const previousRaw = item.previous_quantity ?? item.quantity_before;
+  const previous = previousRaw == null ? null : Math.max(0, Math.trunc(Number(previousRaw) || 0));
+  const change = String(item.change ?? item.change_type ?? "").trim().toLowerCase();
+  const removed = (qty: number) => ({ change: "-", qty: Math.max(1, qty), note: "ANNULLATO", cancelled: true });
+  if (cancelled || ["removed", "cancelled", "deleted", "annullato"].includes(change)) {
+    return removed(previous ?? quantity);
+  }
+  if (previous != null && previous !== quantity && !["added", "aggiunto"].includes(change)) {
+    if (quantity === 0) return removed(previous);
+    if (previous === 0) return { change: "+", qty: quantity, note: "AGGIUNTO", cancelled: false };
+    // The kitchen acts on the difference; the note keeps the old and new totals for reference.
+    return {
+      change: quantity > previous ? "+" : "-",
+      qty: Math.abs(quantity - previous),
+      note: `(${previous} -> ${quantity})`,
+      cancelled: false,
+    };
+  }
+  return { change: "+", qty: Math.max(1, quantity), note: "AGGIUNTO", cancelled: false };
+}
+
+function itemCourse(item: Record<string, unknown>) {
+  return String(item.course ?? item.course_name ?? item.portata ?? "").trim();
+}
+
+/** Orders items by course, keeping the original order inside a course and for unknown courses. */
+function sortItemsByCourse(items: Record<string, unknown>[]) {
+  const firstSeen = new Map<string, number>();
+  const rank = (item: Record<string, unknown>) => {
+    const explicit = Number(item.course_order ?? item.course_index);
+    if (item.course_order != null && Number.isFinite(explicit)) return explicit;
+    const course = itemCourse(item).toLowerCase();
+    if (!course) return Number.MAX_SAFE_INTEGER;
+    const known = COURSE_ORDER.findIndex((prefix) => course.startsWith(prefix));
+    if (known >= 0) return known;
+    if (!firstSeen.has(course)) firstSeen.set(course, COURSE_ORDER.length + firstSeen.size);
+    return firstSeen.get(course) as number;
+  };
+  return items
+    .map((item, index) => ({ item, index, rank: rank(item) }))
+    .sort((a, b) => a.rank - b.rank || a.index - b.index)
+    .map((entry) => entry.item);
+}
+
+function renderTicket(
+  job: JobRow,
+  template: TicketTemplate,
+  paper: PaperProfile,
+  options: {
+    redirectedFrom?: string | null;
+    part?: TicketPart | null;
+    translations?: Map<string, string>;
+    logo?: TicketRaster | null;
+    encoding?: PrinterEncoding | null;
+    allergenKeywords?: string[];
+    /** When the referenced order came out of this desktop, from the local print history. */
+    originalPrintedAt?: string | null;
+  } = {},
+) {
+  const payload = (job.payload || {}) as Record<string, unknown>;
+  const items = options.part ? options.part.items : Array.isArray(payload.items) ? payload.items : [];
+  const department = options.part
+    ? options.part.departments.join("/")
+    : normalizeDepartment(payload.department || job.department);
+  const heldCourses = new Set(
+    (Array.isArray(payload.held_courses) ? payload.held_courses : []).map((course) => String(course).trim().toLowerCase()),
+  );
+  const urgent =
+    payload.urgent === true || payload.rush === true || /^(urgent|rush|high)$/i.test(String(payload.priority || ""));
+  const allergyNotes = String(payload.allergy_notes || payload.allergies_note || "").trim();
+  const keywords = options.allergenKeywords || DEFAULT_ALLERGEN_KEYWORDS;
+  const sortedItems = sortItemsByCourse(items.map((rawItem) => (rawItem || {}) as Record<string, unknown>));
+  const itemAllergens = sortedItems.map((item) => itemAllergenInfo(item, keywords));
+  const declared = Array.from(new Set(itemAllergens.flatMap((info) => info.allergens.map((tag) => tag.toUpperCase()))));
+  const allergy =
+    payload.allergy === true ||
+    payload.has_allergies === true ||
+    Boolean(allergyNotes) ||
+    itemAllergens.some((info) => info.allergens.length > 0 || info.noteAlert);
+  const allergyDetail = allergyNotes || declared.join(", ");
+  const variation = isVariationJob(job);
+  const cancelled = variation && isCancellationJob(job);
+  return renderTicketTemplate(
+    template,
+    {
+      department: department.toUpperCase(),
+      order: payload.order_number != null ? `#${String(payload.order_number)}` : "#-",
+      table: (String(payload.table_number || "").trim() || "-").toUpperCase(),
+      date: formatTimestamp(payload.created_at || job.created_at),
+      restaurant: String(payload.restaurant_name || "").trim() || "Ristorante",
+      part: options.part && options.part.count > 1 ? `${options.part.index}/${options.part.count}` : "",
+      redirected_from: options.redirectedFrom ? options.redirectedFrom.toUpperCase() : "",
+      job_id: String(job.id),
+      order_id: String(payload.order_id || "").trim(),
+      urgent: urgent ? "URGENTE" : "",
+      allergy: allergy ? (allergyDetail ? `ALLERGIA: ${allergyDetail}` : "ALLERGIA") : "",
+      storno: variation && cancelled ? "STORNO" : "",
+      original_order: variation ? `#${String(payload.original_order_number ?? payload.order_number ?? "-")}` : "",
+      original_printed_at: variation ? formatTimestamp(options.originalPrintedAt) : "",
+    },
+    sortedItems.map((item, index) => {
+      const name = prettifyDishName(item.name);
+      const kitchenName = translateDishName(item, options.translations || new Map());
+      const course = itemCourse(item);
+      const delta = variation ? describeItemChange(item, cancelled) : null;
+      return {
+        qty: String(delta ? delta.qty : Math.max(1, Number(item.quantity) || 1)),
+        change: delta ? delta.change : "",
+        change_note: delta ? delta.note : "",
+        change_cancelled: delta?.cancelled ? "1" : "",
+        name: kitchenName || name,
+        original_name: kitchenName ? name : "",
+        notes: String(item.notes || "").trim(),
+        course,
+        held: item.held === true || item.hold === true || heldCourses.has(course.toLowerCase()) ? "1" : "",
+        allergens: itemAllergens[index].allergens.join(", "),
+        dietary: itemAllergens[index].dietary.join(", "),
+        notes_alert: itemAllergens[index].noteAlert ? "1" : "",
+      };
+    }),
+    paper,
+    { logo: options.logo, encoding: options.encoding },
+  );
 }
 
 function formatCurrency(value: unknown) {
@@ -451,104 +2592,266 @@ function formatCurrency(value: unknown) {
   return `EUR ${str}`;
 }
 
-function padRow(label: string, value: string, width: number) {
-  const gap = width - label.length - value.length;
+function padRow(label: string, value: string, width: number, wide = false) {
+  const gap = width - textColumns(label, wide) - textColumns(value, wide);
   return label + " ".repeat(Math.max(1, gap)) + value;
 }
 
-function renderNonFiscalReceiptTicket(job: NonFiscalReceiptJobRow) {
-  const width = 42;
+function renderNonFiscalReceiptTicket(
+  job: NonFiscalReceiptJobRow,
+  template: TicketTemplate,
+  paper: PaperProfile,
+  options: { reviewUrl?: string | null; logo?: TicketRaster | null; encoding?: PrinterEncoding | null } = {},
+) {
   const payload = (job.payload || {}) as Record<string, unknown>;
-  const restaurantName = String(payload.restaurant_name || "").trim() || "Ristorante";
-  const tableLabel = String(payload.table_number || "").trim() || "-";
-  const paidAt = formatTimestamp(payload.paid_at || job.created_at);
-  const paymentMethod = normalizePaymentMethod(payload.payment_method);
-  const paymentLabel = paymentMethod === "card" ? "Carta" : "Contanti";
-  const ayceTotal = Number(payload.ayce_total) || 0;
-  const coverTotal = Number(payload.cover_total) || 0;
-  const extrasTotal = Number(payload.extras_total) || 0;
-  const totalAmount = Number(payload.total_amount) || 0;
-
-  const center = (text: string) => {
-    if (text.length >= width) return text;
-    const pad = Math.floor((width - text.length) / 2);
-    return " ".repeat(pad) + text;
+  const tenders = readPaymentTenders(payload);
+  const changeCents = tendersChangeCents(tenders, toCents(payload.total_amount));
+  const tenderLabel = (tender: PaymentTender) => tender.description || PAYMENT_TENDER_LABELS[tender.method];
+  const joinToken = String(payload.join_token || "").trim();
+  const amount = (value: unknown) => (Number(value) > 0 ? formatCurrency(value) : "");
+  return renderTicketTemplate(
+    template,
+    {
+      restaurant: String(payload.restaurant_name || "").trim() || "Ristorante",
+      table: String(payload.table_number || "").trim() || "-",
+      date: formatTimestamp(payload.paid_at || job.created_at),
+      payment: tenders.map(tenderLabel).join(" + "),
+      ayce_total: amount(payload.ayce_total),
+      cover_total: amount(payload.cover_total),
+      extras_total: amount(payload.extras_total),
+      total: formatCurrency(Number(payload.total_amount) || 0),
+      change: changeCents > 0 ? formatCurrency(changeCents / 100) : "",
+      review_url: String(payload.review_url || "").trim() || options.reviewUrl || "",
+      join_url:
+        String(payload.join_url || "").trim() || (joinToken ? `${JOIN_LINK_PREFIX}${encodeURIComponent(joinToken)}` : ""),
+    },
+    tenders.map((tender) => ({ method: tenderLabel(tender), amount: formatCurrency(tender.cents / 100) })),
+    paper,
+    { logo: options.logo, encoding: options.encoding },
+  );
+}
+
+function templateUsesLogo(template: TicketTemplate) {
+  return [...template.header, ...template.body, ...template.footer].some((block) => block.type === "logo");
+}
+
+/**
+ * Decodes the logo with Electron (PNG or JPEG), scales it to fit maxWidth dots without
+ * enlarging it, flattens transparency onto white paper and Floyd-Steinberg dithers it to 1 bit.
+ */
+function rasterizeLogo(image: Buffer, maxWidth: number): TicketRaster {
+  const decoded = nativeImage.createFromBuffer(image);
+  if (decoded.isEmpty()) throw new Error("LOGO_NOT_IMAGE");
+  const size = decoded.getSize();
+  const ratio = Math.min(1, maxWidth / size.width, maxWidth / size.height);
+  const scaled = ratio < 1 ? decoded.resize({ width: Math.max(1, Math.round(size.width * ratio)), quality: "best" }) : decoded;
+  const { width, height } = scaled.getSize();
+  const bitmap = scaled.toBitmap();
+  if (!width || !height || bitmap.length < width * height * 4) throw new Error("LOGO_NOT_IMAGE");
+  const gray = new Float32Array(width * height);
+  for (let index = 0; index < width * height; index += 1) {
+    // toBitmap() is BGRA.
+    const b = bitmap[index * 4];
+    const g = bitmap[index * 4 + 1];
+    const r = bitmap[index * 4 + 2];
+    const a = bitmap[index * 4 + 3];
+    const lum = 0.299 * r + 0.587 * g + 0.114 * b;
+    gray[index] = (lum * a + 255 * (255 - a)) / 255;
+  }
+  const rowBytes = Math.ceil(width / 8);
+  const data = Buffer.alloc(rowBytes * height);
+  for (let y = 0; y < height; y += 1) {
+    for (let x = 0; x < width; x += 1) {
+      const index = y * width + x;
+      const black = gray[index] < 128;
+      if (black) data[y * rowBytes + (x >> 3)] |= 0x80 >> (x & 7);
+      const error = gray[index] - (black ? 0 : 255);
+      if (x + 1 < width) gray[index + 1] += (error * 7) / 16;
+      if (y + 1 < height) {
+        if (x > 0) gray[index + width - 1] += (error * 3) / 16;
+        gray[index + width] += (error * 5) / 16;
+        if (x + 1 < width) gray[index + width + 1] += error / 16;
+      }
+    }
+  }
+  return { width, height, data };
+}
+
+/** GS v 0 in bands, since some printers cap the rows of a single raster command. */
+function buildRasterCommand(raster: TicketRaster) {
+  const GS = 0x1d;
+  const BAND_ROWS = 256;
+  const rowBytes = Math.ceil(raster.width / 8);
+  const chunks: Buffer[] = [];
+  for (let top = 0; top < raster.height; top += BAND_ROWS) {
+    const rows = Math.min(BAND_ROWS, raster.height - top);
+    chunks.push(
+      Buffer.from([GS, 0x76, 0x30, 0x00, rowBytes & 0xff, rowBytes >> 8, rows & 0xff, rows >> 8]),
+      raster.data.subarray(top * rowBytes, (top + rows) * rowBytes),
+    );
+  }
+  return Buffer.concat(chunks);
+}
+
+const encodingTables = new Map<PrinterEncodingName, Map<string, number>>();
+
+/**
+ * Character -> byte (or lead/trail pair packed as lead << 8 | trail) for the non-ASCII half
+ * of an encoding, built once; the double-byte ones are read back from TextDecoder.
+ */
+function getEncodingTable(name: Exclude<PrinterEncodingName, "utf8">) {
+  const cached = encodingTables.get(name);
+  if (cached) return cached;
+  const table = new Map<string, number>();
+  if (name === "cp858") {
+    Array.from(CP858_HIGH_CHARS).forEach((char, index) => table.set(char, 0x80 + index));
+  } else if (name === "cp1252") {
+    Array.from(CP1252_C1_CHARS).forEach((char, index) => {
+      if (char !== "\u0000") table.set(char, 0x80 + index);
+    });
+    for (let byte = 0xa0; byte <= 0xff; byte += 1) table.set(String.fromCharCode(byte), byte);
+  } else {
+    const decoder = new TextDecoder(name);
+    for (let lead = 0x81; lead <= 0xfe; lead += 1) {
+      for (let trail = 0x40; trail <= 0xfe; trail += 1) {
+        if (trail === 0x7f) continue;
+        const char = decoder.decode(Uint8Array.of(lead, trail));
+        if (char.length === 1 && char !== "\ufffd" && !table.has(char)) table.set(char, (lead << 8) | trail);
+      }
+    }
+  }
+  encodingTables.set(name, table);
+  return table;
+}
+
+/** Replaces a character the printer cannot print with the closest ASCII, or "?". */
+function transliterateChar(char: string, table: Map<string, number>) {
+  const mapped = TRANSLITERATIONS[char];
+  if (mapped) return mapped;
+  const stripped = char.normalize("NFD").replace(/[\u0300-\u036f]/g, "");
+  if (stripped && Array.from(stripped).every((part) => part.charCodeAt(0) < 0x80 || table.has(part))) return stripped;
+  return "?";
+}
+
+function encodeTicketText(text: string, encoding: PrinterEncoding) {
+  if (encoding.name === "utf8") return Buffer.from(text, "utf8");
+  const table = getEncodingTable(encoding.name);
+  const bytes: number[] = [];
+  const push = (char: string) => {
+    const code = char.charCodeAt(0);
+    if (char.length === 1 && code < 0x80) {
+      bytes.push(code);
+      return true;
+    }
+    const value = table.get(char);
+    if (value == null) return false;
+    if (value > 0xff) bytes.push(value >> 8, value & 0xff);
+    else bytes.push(value);
+    return true;
   };
+  for (const char of Array.from(text)) {
+    if (push(char)) continue;
+    for (const part of Array.from(transliterateChar(char, table))) {
+      if (!push(part)) bytes.push(0x3f);
+    }
+  }
+  return Buffer.from(bytes);
+}
 
-  const lines: string[] = [];
-  lines.push("=".repeat(width));
-  lines.push(center(restaurantName));
-  lines.push("=".repeat(width));
-  lines.push(center("SCONTRINO NON FISCALE"));
-  lines.push("-".repeat(width));
-  lines.push(center(`Tavolo: ${tableLabel}`));
-  if (paidAt) lines.push(center(`Data:   ${paidAt}`));
-  lines.push("-".repeat(width));
-
-  if (ayceTotal > 0) lines.push(padRow("AYCE", formatCurrency(ayceTotal), width));
-  if (coverTotal > 0) lines.push(padRow("Coperto", formatCurrency(coverTotal), width));
-  if (extrasTotal > 0) lines.push(padRow("Extra", formatCurrency(extrasTotal), width));
-
-  lines.push("-".repeat(width));
-  lines.push(padRow("TOTALE", formatCurrency(totalAmount), width));
-  lines.push(padRow("Pagamento", paymentLabel, width));
-  lines.push("=".repeat(width));
-  lines.push(center("Grazie per la visita!"));
-  lines.push(center("*** NON FISCALE ***"));
-  lines.push("=".repeat(width));
-  return lines.join("\n");
-}
-
-function isBoldLine(line: string) {
-  const trimmed = line.trim();
-  if (!trimmed) return false;
-  if (/^tavolo:/i.test(trimmed)) return true;
-  if (/^\d+x\s+/i.test(trimmed)) return true;
-  return false;
-}
-
-function getLinePrintSize(line: string) {
-  const trimmed = line.trim();
-  if (!trimmed) return 0x00;
-  if (/^tavolo:/i.test(trimmed)) {
-    // Double width + double height for table.
-    return 0x11;
-  }
-  if (/^\d+x\s+/i.test(trimmed)) {
-    // Product rows as large as table rows.
-    return 0x11;
-  }
-  // Keep date and other lines in normal size.
-  return 0x00;
-}
-
-function buildEscPosPayload(ticketText: string) {
+/** GS ( k: QR model 2, module size, error correction, store data, print. */
+function buildQrCommand(code: Extract<TicketCode, { type: "qr" }>) {
+  const GS = 0x1d;
+  const data = Buffer.from(code.data, "utf8").subarray(0, 7089);
+  const storeLength = data.length + 3;
+  return Buffer.concat([
+    Buffer.from([GS, 0x28, 0x6b, 0x04, 0x00, 0x31, 0x41, 0x32, 0x00]),
+    Buffer.from([GS, 0x28, 0x6b, 0x03, 0x00, 0x31, 0x43, code.moduleSize]),
+    Buffer.from([GS, 0x28, 0x6b, 0x03, 0x00, 0x31, 0x45, 0x30 + TICKET_QR_LEVELS.indexOf(code.errorCorrection)]),
+    Buffer.from([GS, 0x28, 0x6b, storeLength & 0xff, (storeLength >> 8) & 0xff, 0x31, 0x50, 0x30]),
+    data,
+    Buffer.from([GS, 0x28, 0x6b, 0x03, 0x00, 0x31, 0x51, 0x30]),
+  ]);
+}
+
+/**
+ * GS k CODE128 in code set B. Bars narrow to one dot when two would not fit the paper;
+ * null when the data cannot be printed as a barcode at all.
+ */
+function buildCode128Command(code: Extract<TicketCode, { type: "barcode" }>, paper: PaperProfile) {
+  const GS = 0x1d;
+  if (!/^[\x20-\x7e]+$/.test(code.data)) return null;
+  // Code set B prefix; a literal "{" is escaped as "{{".
+  const data = Buffer.from(`{B${code.data.replace(/\{/g, "{{")}`, "ascii");
+  if (data.length > 255) return null;
+  // Start + data + checksum symbols of 11 modules, a 13-module stop and the quiet zones.
+  const modules = (code.data.length + 2) * 11 + 13 + 20;
+  const moduleWidth = modules * 2 <= paper.printableDots ? 2 : modules <= paper.printableDots ? 1 : 0;
+  if (moduleWidth === 0) return null;
+  return Buffer.concat([
+    Buffer.from([GS, 0x68, code.height]),
+    Buffer.from([GS, 0x77, moduleWidth]),
+    Buffer.from([GS, 0x48, code.hri ? 0x02 : 0x00]),
+    Buffer.from([GS, 0x6b, 0x49, data.length]),
+    data,
+  ]);
+}
+
+function buildEscPosPayload(lines: TicketLine[], paper: PaperProfile, encoding: PrinterEncoding) {
+  const FS = 0x1c;
   const ESC = 0x1b;
   const GS = 0x1d;
   const EXTRA_FEED_LINES = 5;
-  const lines = ticketText.split(/\r?\n/);
   const chunks = [
     Buffer.from([ESC, 0x40]),
-    // Alternate ESC/POS font (Font B) for a less rigid look.
-    Buffer.from([ESC, 0x4d, 0x01]),
+    ...(paper.setsPrintArea ? [Buffer.from([GS, 0x57, paper.printableDots & 0xff, (paper.printableDots >> 8) & 0xff])] : []),
+    // Font B by default for a less rigid look; Font A when the printer profile asks for it.
+    Buffer.from([ESC, 0x4d, paper.font === "a" ? 0x00 : 0x01]),
     // Slight character spacing improves readability on thermal heads.
-    Buffer.from([ESC, 0x20, 0x02]),
+    Buffer.from([ESC, 0x20, TICKET_CHAR_SPACING]),
   ];
+  if (encoding.name === "gb18030" || encoding.name === "big5") {
+    // Kanji mode: the printer reads bytes >= 0x80 as double-byte characters of its built-in font.
+    chunks.push(Buffer.from([FS, 0x26]));
+  } else if (encoding.codePage != null) {
+    // Chinese firmware often boots in Kanji mode, which would swallow the single-byte accents.
+    chunks.push(Buffer.from([FS, 0x2e]), Buffer.from([ESC, 0x74, encoding.codePage]));
+  }
   let bold = false;
   let size = 0x00;
+  let inverted = false;
   for (const line of lines) {
-    const shouldBold = isBoldLine(line);
-    if (shouldBold !== bold) {
-      chunks.push(Buffer.from([ESC, 0x45, shouldBold ? 0x01 : 0x00]));
-      bold = shouldBold;
+    if ("raster" in line) {
+      chunks.push(Buffer.from([ESC, 0x61, TICKET_ALIGNS.indexOf(line.align)]), buildRasterCommand(line.raster));
+      chunks.push(Buffer.from([ESC, 0x61, 0x00]));
+      continue;
+    }
+    if ("code" in line) {
+      const command = line.code.type === "qr" ? buildQrCommand(line.code) : buildCode128Command(line.code, paper);
+      if (!command) {
+        // Too long for the paper: keep the value readable instead of dropping it.
+        chunks.push(encodeTicketText(`${line.code.data}\n`, encoding));
+        continue;
+      }
+      chunks.push(Buffer.from([ESC, 0x61, TICKET_ALIGNS.indexOf(line.code.align)]), command);
+      chunks.push(Buffer.from([0x0a, ESC, 0x61, 0x00]));
+      continue;
+    }
+    if (Boolean(line.inverted) !== inverted) {
+      inverted = Boolean(line.inverted);
+      chunks.push(Buffer.from([GS, 0x42, inverted ? 0x01 : 0x00]));
+    }
+    if (line.bold !== bold) {
+      chunks.push(Buffer.from([ESC, 0x45, line.bold ? 0x01 : 0x00]));
+      bold = line.bold;
     }
-    const nextSize = getLinePrintSize(line);
+    const nextSize = TICKET_TEXT_SIZES[line.size];
     if (nextSize !== size) {
       chunks.push(Buffer.from([GS, 0x21, nextSize]));
       size = nextSize;
     }
-    chunks.push(Buffer.from(`${line}\n`, "utf8"));
+    chunks.push(encodeTicketText(`${line.text}\n`, encoding));
   }
+  if (inverted) chunks.push(Buffer.from([GS, 0x42, 0x00]));
   if (bold) chunks.push(Buffer.from([ESC, 0x45, 0x00]));
   if (size !== 0x00) chunks.push(Buffer.from([GS, 0x21, 0x00]));
   chunks.push(Buffer.from([ESC, 0x64, EXTRA_FEED_LINES]));
@@ -713,6 +3016,25 @@ export class DesktopPrintWorker {
   private readonly appVersion: string;
   private readonly onMainLog?: (level: "INFO" | "WARN" | "ERROR", message: string) => void;
   private readonly configPath: string;
+  private readonly spoolPath: string;
+  private readonly spool = new Map<string, SpoolEntry>();
+  private readonly ledgerPath: string;
+  private readonly ledger = new Map<string, LedgerEntry>();
+  private readonly heldPrinters = new Map<string, HeldPrinterQueue>();
+  private readonly printerStatus = new Map<string, PrinterStatusEntry>();
+  private readonly activePrinterWrites = new Map<string, number>();
+  /** Tail of the deliveries queued per printer, whichever tick lane they come from. */
+  private readonly printerLanes = new Map<string, Promise<void>>();
+  private healthTimer: NodeJS.Timeout | null = null;
+  private printerHealthRpcAvailable = true;
+  private stateWrite: Promise<void> = Promise.resolve();
+  private ticketTemplateErrors = "";
+  /** RT department mapping from the last settings read, used when a later read fails. */
+  private lastFiscalConfig: { restaurantId: string; config: FiscalRtConfig } | null = null;
+  private readonly untranslatedDishes = new Set<string>();
+  private readonly logoCacheDir: string;
+  private readonly logoRasters = new Map<string, CachedLogo>();
+  private readonly logoFailures = new Map<string, number>();
   private readonly logs: WorkerLogRow[] = [];
   private readonly authState: { user: { id: string; email: string | null } | null; restaurant: RestaurantScope | null } = {
     user: null,
@@ -722,23 +3044,36 @@ export class DesktopPrintWorker {
     consumerId: sanitizeConsumerId(""),
     deviceName: sanitizeDeviceName(`Bridge ${os.hostname()}`),
     pollMs: 2500,
+    safetyPollMs: 30000,
+    offlineHoldMs: 120000,
+    healthProbeMs: 60000,
+    realtimeEnabled: true,
     claimLimit: 5,
+    printConcurrency: 4,
     autoStart: true,
   };
   private savedSession: SessionSnapshot | null = null;
   private supabase: SupabaseClient | null = null;
   private physicalReceiptRpcAvailable = true;
   private nonFiscalReceiptRpcAvailable = true;
+  private fiscalReportRpcAvailable = true;
+  /** Receipts of the latest tick; a Z, claimed or started by hand, waits until they are settled. */
+  private tickReceipts: FiscalReportReceiptState = { backlog: false, unsettled: new Set() };
   private boundWindow: BrowserWindow | null = null;
+  private realtimeChannel: RealtimeChannel | null = null;
+  private realtimeRetryTimer: NodeJS.Timeout | null = null;
   private service = {
     running: false,
     processing: false,
+    tickRequested: false,
     timer: null as NodeJS.Timeout | null,
     assignedPrinterId: null as string | null,
+    realtime: "disabled" as RealtimeStatus,
     stats: {
       claimed: 0,
       printed: 0,
       failed: 0,
+      deduplicated: 0,
       lastRunAt: null as string | null,
       lastError: null as string | null,
     },
@@ -749,6 +3084,9 @@ export class DesktopPrintWorker {
     this.appVersion = deps.appVersion;
     this.onMainLog = deps.onMainLog;
     this.configPath = path.join(deps.userDataPath, CONFIG_FILENAME);
+    this.spoolPath = path.join(deps.userDataPath, SPOOL_FILENAME);
+    this.ledgerPath = path.join(deps.userDataPath, LEDGER_FILENAME);
+    this.logoCacheDir = path.join(deps.userDataPath, LOGO_CACHE_DIRNAME);
   }
 
   attachWindow(win: BrowserWindow | null) {
@@ -767,6 +3105,22 @@ export class DesktopPrintWorker {
         running: this.service.running,
         processing: this.service.processing,
         assignedPrinterId: this.service.assignedPrinterId,
+        realtime: this.service.realtime,
+        spool: this.getSpoolSummary(),
+        waitingPrinters: Array.from(this.heldPrinters.values()).map((queue) => ({
+          printerId: queue.target.id,
+          printerName: queue.target.name,
+          host: queue.target.host,
+          port: queue.target.port,
+          waitingJobs: queue.deliveries.length,
+          since: queue.since,
+          nextRetryAt: new Date(queue.nextRetryAt).toISOString(),
+          lastError: queue.lastError,
+        })),
+        printerStatus: Array.from(this.printerStatus.values()).map((entry) => ({
+          ...entry,
+          status: entry.status ? { ...entry.status } : null,
+        })),
         stats: { ...this.service.stats },
       },
       logs: [...this.logs],
@@ -775,6 +3129,8 @@ export class DesktopPrintWorker {
 
   async init() {
     await this.loadPersistedState();
+    await this.loadSpool();
+    await this.loadLedger();
     if (this.config.autoStart && this.savedSession) {
       try {
         await this.startService();
@@ -786,6 +3142,7 @@ export class DesktopPrintWorker {
 
   async shutdown() {
     await this.stopService();
+    await this.stateWrite;
   }
 
   async saveConfig(partial: Partial<WorkerConfig>) {
@@ -795,11 +3152,22 @@ export class DesktopPrintWorker {
       consumerId: sanitizeConsumerId(partial.consumerId ?? this.config.consumerId),
       deviceName: sanitizeDeviceName(partial.deviceName ?? this.config.deviceName),
       pollMs: sanitizePollMs(partial.pollMs ?? this.config.pollMs),
+      safetyPollMs: sanitizeSafetyPollMs(partial.safetyPollMs ?? this.config.safetyPollMs),
+      offlineHoldMs: sanitizeOfflineHoldMs(partial.offlineHoldMs ?? this.config.offlineHoldMs),
+      healthProbeMs: sanitizeHealthProbeMs(partial.healthProbeMs ?? this.config.healthProbeMs),
+      realtimeEnabled:
+        partial.realtimeEnabled == null ? this.config.realtimeEnabled : Boolean(partial.realtimeEnabled),
       claimLimit: sanitizeClaimLimit(partial.claimLimit ?? this.config.claimLimit),
+      printConcurrency: sanitizePrintConcurrency(partial.printConcurrency ?? this.config.printConcurrency),
       autoStart: partial.autoStart == null ? this.config.autoStart : Boolean(partial.autoStart),
     };
     await this.persistState();
     this.pushLog("INFO", "Configurazione worker stampa aggiornata");
+    if (this.service.running) {
+      if (this.config.realtimeEnabled && this.service.realtime === "disabled") this.startRealtime();
+      if (!this.config.realtimeEnabled && this.service.realtime !== "disabled") this.stopRealtime();
+      this.scheduleHealthProbe();
+    }
     return this.getPublicState();
   }
 
@@ -839,17 +3207,23 @@ export class DesktopPrintWorker {
     }
     this.service.running = true;
     this.service.processing = false;
+    this.service.tickRequested = false;
     this.service.assignedPrinterId = null;
     this.service.stats = {
       claimed: 0,
       printed: 0,
       failed: 0,
+      deduplicated: 0,
       lastRunAt: null,
       lastError: null,
     };
     this.physicalReceiptRpcAvailable = true;
     this.nonFiscalReceiptRpcAvailable = true;
+    this.fiscalReportRpcAvailable = true;
+    this.printerHealthRpcAvailable = true;
     this.pushLog("INFO", `Servizio stampa avviato (${this.config.consumerId})`);
+    this.startRealtime();
+    this.scheduleHealthProbe(HEALTH_FIRST_PROBE_DELAY_MS);
     this.broadcastState();
     void this.runTick();
     return this.getPublicState();
@@ -858,10 +3232,17 @@ export class DesktopPrintWorker {
   async stopService() {
     this.service.running = false;
     this.service.processing = false;
+    this.service.tickRequested = false;
     if (this.service.timer) {
       clearTimeout(this.service.timer);
       this.service.timer = null;
     }
+    this.stopRealtime();
+    this.dropHeldPrinters();
+    if (this.healthTimer) {
+      clearTimeout(this.healthTimer);
+      this.healthTimer = null;
+    }
     try {
       await this.heartbeatAgent(false);
     } catch {
@@ -872,6 +3253,70 @@ export class DesktopPrintWorker {
     return this.getPublicState();
   }
 
+  /**
+   * Prints a kitchen job again on its current routes. The job row is read back from the
+   * server and never re-acknowledged: it was completed the first time.
+   */
+  async forceReprint(jobId: string) {
+    const id = String(jobId || "").trim();
+    if (!id) throw new Error("JOB_ID_MISSING");
+    await this.ensureSignedIn();
+    const restaurantId = this.authState.restaurant?.id;
+    if (!restaurantId) return { ok: false, reason: "RESTAURANT_NOT_RESOLVED" };
+    const client = this.ensureSupabaseClient();
+    const { data, error } = await client
+      .from("print_jobs")
+      .select("id, department, payload, route, created_at")
+      .eq("id", id)
+      .maybeSingle();
+    if (error) throw error;
+    if (!data) return { ok: false, reason: "JOB_NOT_FOUND" };
+    const row = data as JobRow;
+    const job: JobRow = { ...row, payload: { ...(row.payload || {}), force_reprint: true } };
+    let liveRoutes: LiveRoutes | null = null;
+    try {
+      liveRoutes = await this.fetchLivePrinterRoutes(restaurantId);
+    } catch (routesError) {
+      this.pushLog("WARN", `Risoluzione route live fallita: ${normalizeError(routesError)}`);
+    }
+    const parts = await this.planPrintJob(job, liveRoutes, { reprint: true });
+    if (parts.length === 0) return { ok: false, reason: "NO_PRINTER_HOST" };
+    this.pushLog("WARN", `Ristampa forzata job ${id.slice(0, 8)} su ${parts.length} stampanti`);
+    await runWithConcurrency(parts, this.config.printConcurrency, (part) => part.run());
+    return { ok: true, parts: parts.length };
+  }
+
+  /**
+   * Kicks the cash drawer of the given printer, or of the first configured printer with a
+   * drawer, without printing anything (e.g. to give change).
+   */
+  async openCashDrawer(printerId?: string | null) {
+    await this.ensureSignedIn();
+    const restaurantId = this.authState.restaurant?.id;
+    if (!restaurantId) return { ok: false, reason: "RESTAURANT_NOT_RESOLVED" };
+    const liveRoutes = await this.fetchLivePrinterRoutes(restaurantId);
+    const id = String(printerId || "").trim();
+    const printer = id
+      ? liveRoutes.byId.get(id)
+      : Array.from(liveRoutes.byId.values()).find((entry) => entry.enabled && entry.host && entry.drawer);
+    if (!printer || !printer.host) return { ok: false, reason: "PRINTER_NOT_FOUND" };
+    if (!printer.drawer) return { ok: false, reason: "CASH_DRAWER_NOT_CONFIGURED" };
+    try {
+      // No status check: a drawer kick must work even with the paper out.
+      await this.deliverToPrinter(
+        { ...toPrinterTarget(printer), statusMode: "off" },
+        buildDrawerKickCommand(printer.drawer),
+        "cassetto",
+        { allowHold: false },
+      );
+    } catch (error) {
+      this.pushLog("WARN", `Apertura cassetto su ${printer.name} fallita: ${normalizeError(error)}`);
+      return { ok: false, reason: normalizeError(error) };
+    }
+    this.pushLog("INFO", `Cassetto aperto su ${printer.name}`);
+    return { ok: true, printerId: printer.id };
+  }
+
   async discoverPrinters(timeoutMs?: number) {
     return this.discoverNetworkPrinters(timeoutMs);
   }
@@ -880,7 +3325,12 @@ export class DesktopPrintWorker {
     return this.discoverNetworkRtDevices(timeoutMs);
   }
 
-  async testRtReceipt(config: { host: string; port: number; brand: string; api_path: string }): Promise<{ ok: boolean; error?: string; elapsed_ms?: number }> {
+  async testRtReceipt(config: { host: string; port: number; brand: string; api_path: string }): Promise<{
+    ok: boolean;
+    error?: string;
+    elapsed_ms?: number;
+    status?: FpMatePrinterStatus | null;
+  }> {
     const host = String(config?.host ?? "").trim();
     const brand = normalizePhysicalBrand(config?.brand);
     const port = sanitizePhysicalPort(config?.port, brand);
@@ -906,12 +3356,17 @@ export class DesktopPrintWorker {
       if (!response.ok) {
         return { ok: false, error: `HTTP ${response.status}: ${responseText.slice(0, 300) || "errore"}`, elapsed_ms: elapsed };
       }
-      if (/\b(error|fault|ko)\b/i.test(responseText)) {
-        return { ok: false, error: responseText.slice(0, 300) || "RT_ERROR_RESPONSE", elapsed_ms: elapsed };
+      const parsed = parseFpMateResponse(responseText);
+      if (!parsed) {
+        return { ok: false, error: `RT: risposta non riconosciuta (${responseText.slice(0, 200) || "vuota"})`, elapsed_ms: elapsed };
+      }
+      if (!parsed.success) {
+        return { ok: false, error: parsed.error || "RT_ERROR_RESPONSE", elapsed_ms: elapsed, status: parsed.printerStatus };
       }
 
-      this.pushLog("INFO", `Test RT receipt OK → ${endpoint} (${elapsed}ms)`);
-      return { ok: true, elapsed_ms: elapsed };
+      const warnings = parsed.printerStatus?.warnings.length ? ` — ${parsed.printerStatus.warnings.join(", ")}` : "";
+      this.pushLog(warnings ? "WARN" : "INFO", `Test RT receipt OK → ${endpoint} (${elapsed}ms)${warnings}`);
+      return { ok: true, elapsed_ms: elapsed, status: parsed.printerStatus };
     } catch (err: unknown) {
       const elapsed = Date.now() - t0;
       const message = err instanceof Error ? err.message : String(err);
@@ -922,48 +3377,303 @@ export class DesktopPrintWorker {
     }
   }
 
-  private pushLog(level: WorkerLogRow["level"], message: string) {
-    const entry: WorkerLogRow = { at: new Date().toISOString(), level, message };
-    this.logs.push(entry);
-    if (this.logs.length > LOG_CAP) this.logs.shift();
-    this.onMainLog?.(level, `[print-worker] ${message}`);
-    if (this.boundWindow && !this.boundWindow.isDestroyed()) {
-      this.boundWindow.webContents.send("desktop:printer-log", entry);
-    }
+  async runFiscalReport(
+    type: string,
+    config: { host: string; port: number; brand: string; api_path: string },
+  ): Promise<{ ok: boolean; error?: string; report?: FiscalReportResult }> {
+    const reportType = normalizeFiscalReportType(type);
+    if (!reportType) return { ok: false, error: "FISCAL_REPORT_TYPE_INVALID" };
+    const label = reportType === "z" ? "Chiusura Z" : "Lettura X";
+    try {
+      const pending = this.pendingReceiptsBeforeZ(reportType);
+      if (pending) throw new Error(pending);
+      const report = await this.runFiscalReportOnDevice(config, reportType);
+      this.pushLog("INFO", `${label} manuale eseguita${report.closureNumber ? ` n. ${report.closureNumber}` : ""}`);
+      // Stored and acknowledged like a claimed report; the spool retries the upload if it fails.
+      const reportId = `${MANUAL_FISCAL_REPORT_PREFIX}${crypto.randomUUID()}`;
+      const meta = fiscalReportMeta(report);
+      await this.recordPrinted("fiscal_report", reportId, { receiptId: report.closureNumber, meta });
+      await this.settleSpooledJob("fiscal_report", reportId, {
+        success: true,
+        error: null,
+        receiptId: report.closureNumber,
+        meta,
+      });
+      return { ok: true, report };
+    } catch (error) {
+      const message = normalizeError(error);
+      this.pushLog("WARN", `${label} manuale fallita: ${message}`);
+      return { ok: false, error: message };
+    }
+  }
+
+  private pushLog(level: WorkerLogRow["level"], message: string) {
+    const entry: WorkerLogRow = { at: new Date().toISOString(), level, message };
+    this.logs.push(entry);
+    if (this.logs.length > LOG_CAP) this.logs.shift();
+    this.onMainLog?.(level, `[print-worker] ${message}`);
+    if (this.boundWindow && !this.boundWindow.isDestroyed()) {
+      this.boundWindow.webContents.send("desktop:printer-log", entry);
+    }
+  }
+
+  private broadcastState() {
+    if (this.boundWindow && !this.boundWindow.isDestroyed()) {
+      this.boundWindow.webContents.send("desktop:printer-state", this.getPublicState());
+    }
+  }
+
+  private async persistState() {
+    await fs.mkdir(path.dirname(this.configPath), { recursive: true });
+    await fs.writeFile(
+      this.configPath,
+      `${JSON.stringify({ config: this.config, session: this.savedSession }, null, 2)}\n`,
+      "utf8",
+    );
+  }
+
+  private async loadPersistedState() {
+    try {
+      const raw = await fs.readFile(this.configPath, "utf8");
+      const parsed = JSON.parse(raw) as Record<string, unknown>;
+      const savedConfig = (parsed.config && typeof parsed.config === "object"
+        ? parsed.config
+        : {}) as Record<string, unknown>;
+      this.config = {
+        consumerId: sanitizeConsumerId(savedConfig.consumerId ?? this.config.consumerId),
+        deviceName: sanitizeDeviceName(savedConfig.deviceName ?? this.config.deviceName),
+        pollMs: sanitizePollMs(savedConfig.pollMs ?? this.config.pollMs),
+        safetyPollMs: sanitizeSafetyPollMs(savedConfig.safetyPollMs ?? this.config.safetyPollMs),
+        offlineHoldMs: sanitizeOfflineHoldMs(savedConfig.offlineHoldMs ?? this.config.offlineHoldMs),
+        healthProbeMs: sanitizeHealthProbeMs(savedConfig.healthProbeMs ?? this.config.healthProbeMs),
+        realtimeEnabled:
+          savedConfig.realtimeEnabled == null ? this.config.realtimeEnabled : Boolean(savedConfig.realtimeEnabled),
+        claimLimit: sanitizeClaimLimit(savedConfig.claimLimit ?? this.config.claimLimit),
+        printConcurrency: sanitizePrintConcurrency(savedConfig.printConcurrency ?? this.config.printConcurrency),
+        autoStart: savedConfig.autoStart == null ? this.config.autoStart : Boolean(savedConfig.autoStart),
+      };
+      this.savedSession = toSessionSnapshot(parsed.session || null);
+    } catch {
+      // first run
+    }
+  }
+
+  private async loadSpool() {
+    let rows: unknown[] = [];
+    try {
+      const parsed = JSON.parse(await fs.readFile(this.spoolPath, "utf8")) as Record<string, unknown>;
+      rows = Array.isArray(parsed.entries) ? parsed.entries : [];
+    } catch {
+      // first run or unreadable spool
+      return;
+    }
+    let unresolved = 0;
+    for (const row of rows) {
+      const entry = toSpoolEntry(row);
+      if (!entry) continue;
+      if (!entry.outcome) {
+        // Claimed before a crash/quit with no recorded print outcome: the server will re-deliver it.
+        unresolved += 1;
+        continue;
+      }
+      this.spool.set(spoolKey(entry.kind, entry.jobId), entry);
+    }
+    if (unresolved > 0) {
+      this.pushLog("WARN", `Spool: ${unresolved} job senza esito locale scartati, verranno riconsegnati dal server`);
+      await this.persistSpool();
+    }
+    if (this.spool.size > 0) {
+      this.pushLog("INFO", `Spool: ${this.spool.size} conferme in attesa di invio`);
+    }
+  }
+
+  private queueStateWrite(filePath: string, value: unknown, label: string) {
+    // Writes are serialized so an older snapshot can never land after a newer one.
+    this.stateWrite = this.stateWrite
+      .then(() => writeJsonFileAtomic(filePath, value))
+      .catch((error) => {
+        this.pushLog("ERROR", `Scrittura ${label} fallita: ${normalizeError(error)}`);
+      });
+    return this.stateWrite;
+  }
+
+  private persistSpool() {
+    return this.queueStateWrite(this.spoolPath, { entries: Array.from(this.spool.values()) }, "spool");
+  }
+
+  private async loadLedger() {
+    try {
+      const parsed = JSON.parse(await fs.readFile(this.ledgerPath, "utf8")) as Record<string, unknown>;
+      const rows = Array.isArray(parsed.entries) ? parsed.entries : [];
+      for (const row of rows) {
+        const entry = toLedgerEntry(row);
+        if (entry) this.ledger.set(spoolKey(entry.kind, entry.jobId), entry);
+      }
+    } catch {
+      // first run or unreadable ledger
+    }
+    this.pruneLedger();
+  }
+
+  private pruneLedger() {
+    const cutoff = Date.now() - LEDGER_RETENTION_MS;
+    for (const [key, entry] of this.ledger) {
+      if (new Date(entry.printedAt).getTime() < cutoff) this.ledger.delete(key);
+    }
+    // Map preserves insertion order, so the oldest records go first.
+    const overflow = this.ledger.size - LEDGER_MAX_ENTRIES;
+    if (overflow > 0) {
+      for (const key of Array.from(this.ledger.keys()).slice(0, overflow)) this.ledger.delete(key);
+    }
+  }
+
+  private persistLedger() {
+    return this.queueStateWrite(this.ledgerPath, { entries: Array.from(this.ledger.values()) }, "registro stampe");
+  }
+
+  private async recordPrinted(
+    kind: SpoolJobKind,
+    jobId: string,
+    details: {
+      receiptId?: string | null;
+      orderRef?: string | null;
+      meta?: Record<string, unknown> | null;
+      fiscalDocument?: IssuedFiscalDocument | null;
+    } = {},
+  ) {
+    const key = spoolKey(kind, jobId);
+    this.ledger.delete(key);
+    this.ledger.set(key, {
+      kind,
+      jobId,
+      printedAt: new Date().toISOString(),
+      receiptId: details.receiptId ?? null,
+      orderRef: details.orderRef ?? null,
+      meta: details.meta ?? null,
+      fiscalDocument: details.fiscalDocument ?? null,
+    });
+    this.pruneLedger();
+    await this.persistLedger();
+  }
+
+  /**
+   * Returns the ledger record when this job already came out of a device, unless the
+   * job payload asked for a reprint.
+   */
+  private findAlreadyPrinted(kind: SpoolJobKind, jobId: string, payload: Record<string, unknown> | null) {
+    if (payload?.force_reprint === true) return null;
+    return this.ledger.get(spoolKey(kind, jobId)) || null;
   }
 
-  private broadcastState() {
-    if (this.boundWindow && !this.boundWindow.isDestroyed()) {
-      this.boundWindow.webContents.send("desktop:printer-state", this.getPublicState());
+  private getSpoolSummary(): WorkerPublicState["service"]["spool"] {
+    let pendingAcks = 0;
+    let oldestPendingAt: string | null = null;
+    let lastAckError: string | null = null;
+    for (const entry of this.spool.values()) {
+      if (!entry.outcome) continue;
+      pendingAcks += 1;
+      if (!oldestPendingAt || entry.outcome.finishedAt < oldestPendingAt) oldestPendingAt = entry.outcome.finishedAt;
+      if (entry.lastAckError) lastAckError = entry.lastAckError;
     }
+    return { pendingAcks, oldestPendingAt, lastAckError };
   }
 
-  private async persistState() {
-    await fs.mkdir(path.dirname(this.configPath), { recursive: true });
-    await fs.writeFile(
-      this.configPath,
-      `${JSON.stringify({ config: this.config, session: this.savedSession }, null, 2)}\n`,
-      "utf8",
-    );
+  private async spoolClaimed(kind: SpoolJobKind, jobId: string) {
+    const key = spoolKey(kind, jobId);
+    if (this.spool.get(key)?.outcome) return;
+    this.spool.set(key, {
+      kind,
+      jobId,
+      claimedAt: new Date().toISOString(),
+      outcome: null,
+      ackAttempts: 0,
+      nextAckAt: null,
+      lastAckError: null,
+    });
+    await this.persistSpool();
   }
 
-  private async loadPersistedState() {
+  /**
+   * Records the local print outcome of a claimed job and tries to acknowledge it right away.
+   * If the acknowledgement fails the outcome stays on disk and is retried with backoff.
+   */
+  private async settleSpooledJob(kind: SpoolJobKind, jobId: string, outcome: Omit<SpoolOutcome, "finishedAt">) {
+    const key = spoolKey(kind, jobId);
+    const entry: SpoolEntry = this.spool.get(key) || {
+      kind,
+      jobId,
+      claimedAt: new Date().toISOString(),
+      outcome: null,
+      ackAttempts: 0,
+      nextAckAt: null,
+      lastAckError: null,
+    };
+    entry.outcome = { ...outcome, finishedAt: new Date().toISOString() };
+    this.spool.set(key, entry);
+    await this.persistSpool();
+    await this.acknowledgeSpoolEntry(entry);
+  }
+
+  private async acknowledgeSpoolEntry(entry: SpoolEntry) {
+    const outcome = entry.outcome;
+    if (!outcome) return false;
+    const key = spoolKey(entry.kind, entry.jobId);
     try {
-      const raw = await fs.readFile(this.configPath, "utf8");
-      const parsed = JSON.parse(raw) as Record<string, unknown>;
-      const savedConfig = (parsed.config && typeof parsed.config === "object"
-        ? parsed.config
-        : {}) as Record<string, unknown>;
-      this.config = {
-        consumerId: sanitizeConsumerId(savedConfig.consumerId ?? this.config.consumerId),
-        deviceName: sanitizeDeviceName(savedConfig.deviceName ?? this.config.deviceName),
-        pollMs: sanitizePollMs(savedConfig.pollMs ?? this.config.pollMs),
-        claimLimit: sanitizeClaimLimit(savedConfig.claimLimit ?? this.config.claimLimit),
-        autoStart: savedConfig.autoStart == null ? this.config.autoStart : Boolean(savedConfig.autoStart),
-      };
-      this.savedSession = toSessionSnapshot(parsed.session || null);
-    } catch {
-      // first run
+      if (entry.kind === "print") {
+        await this.completePrintJob(entry.jobId, outcome.success, outcome.error, outcome.meta ?? null);
+      } else if (entry.kind === "physical_receipt") {
+        await this.completePhysicalReceiptJob(entry.jobId, outcome.success, {
+          receiptId: outcome.receiptId,
+          error: outcome.error,
+          meta: outcome.meta ?? null,
+        });
+      } else if (entry.kind === "fiscal_report" && entry.jobId.startsWith(MANUAL_FISCAL_REPORT_PREFIX)) {
+        await this.recordManualFiscalReport(entry.jobId, outcome.meta ?? null);
+      } else if (entry.kind === "fiscal_report") {
+        await this.completeFiscalReportJob(entry.jobId, outcome.success, {
+          report: outcome.meta ?? null,
+          error: outcome.error,
+        });
+      } else {
+        await this.completeNonFiscalReceiptJob(entry.jobId, outcome.success, outcome.error);
+      }
+    } catch (ackError) {
+      if (entry.kind === "physical_receipt" && isMissingRpcError(ackError, "physical_receipt_complete_job")) {
+        this.physicalReceiptRpcAvailable = false;
+        this.pushLog("WARN", "RPC physical_receipt_complete_job non trovata: applica la migrazione RT fisico.");
+      } else if (entry.kind === "non_fiscal_receipt" && isMissingRpcError(ackError, "non_fiscal_receipt_complete_job")) {
+        this.nonFiscalReceiptRpcAvailable = false;
+      } else if (entry.kind === "fiscal_report" && isMissingRpcError(ackError, "fiscal_report_complete_job")) {
+        this.fiscalReportRpcAvailable = false;
+        this.pushLog("WARN", "RPC fiscal_report_complete_job non trovata: applica la migrazione report fiscali.");
+      }
+      entry.ackAttempts += 1;
+      entry.lastAckError = normalizeError(ackError);
+      const delayMs = spoolAckBackoffMs(entry.ackAttempts);
+      entry.nextAckAt = new Date(Date.now() + delayMs).toISOString();
+      await this.persistSpool();
+      this.pushLog(
+        "ERROR",
+        `Ack fallito ${entry.kind} ${entry.jobId.slice(0, 8)} (tentativo ${entry.ackAttempts}, riprovo tra ${Math.round(delayMs / 1000)}s): ${entry.lastAckError}`,
+      );
+      return false;
+    }
+    this.spool.delete(key);
+    await this.persistSpool();
+    if (entry.ackAttempts > 0) {
+      this.pushLog("INFO", `Ack recuperato ${entry.kind} ${entry.jobId.slice(0, 8)} dopo ${entry.ackAttempts} tentativi`);
+    }
+    return true;
+  }
+
+  private async flushSpoolAcks() {
+    const now = Date.now();
+    const due = Array.from(this.spool.values()).filter(
+      (entry) => entry.outcome && (!entry.nextAckAt || new Date(entry.nextAckAt).getTime() <= now),
+    );
+    for (const entry of due) {
+      if (!this.service.running) break;
+      await this.acknowledgeSpoolEntry(entry);
     }
   }
 
@@ -1077,6 +3787,107 @@ export class DesktopPrintWorker {
     };
   }
 
+  private startRealtime() {
+    this.stopRealtime();
+    const restaurantId = this.authState.restaurant?.id;
+    if (!this.config.realtimeEnabled || !restaurantId) {
+      this.service.realtime = "disabled";
+      return;
+    }
+    const client = this.ensureSupabaseClient();
+    let channel = client.channel(`desktop-print-jobs:${restaurantId}:${this.config.consumerId}`);
+    for (const table of REALTIME_JOB_TABLES) {
+      channel = channel.on(
+        "postgres_changes",
+        { event: "INSERT", schema: "public", table, filter: `restaurant_id=eq.${restaurantId}` },
+        () => this.requestTick(),
+      );
+    }
+    this.realtimeChannel = channel;
+    this.service.realtime = "connecting";
+    channel.subscribe((status, err) => {
+      // Ignore late callbacks from a channel that was already replaced or removed.
+      if (this.realtimeChannel !== channel) return;
+      if (status === "SUBSCRIBED") {
+        this.service.realtime = "live";
+        this.pushLog("INFO", "Realtime job attivo: polling ridotto a rete di sicurezza");
+        this.broadcastState();
+        // Catch up on anything inserted while the channel was connecting.
+        this.requestTick();
+        return;
+      }
+      if (status === "CHANNEL_ERROR" || status === "TIMED_OUT" || status === "CLOSED") {
+        const wasLive = this.service.realtime === "live";
+        this.service.realtime = "fallback";
+        this.pushLog(
+          "WARN",
+          `Realtime job non disponibile (${status}${err ? `: ${normalizeError(err)}` : ""}): torno al polling ogni ${this.config.pollMs}ms`,
+        );
+        this.broadcastState();
+        if (wasLive) this.requestTick();
+        this.scheduleRealtimeRetry();
+      }
+    });
+  }
+
+  private stopRealtime() {
+    if (this.realtimeRetryTimer) {
+      clearTimeout(this.realtimeRetryTimer);
+      this.realtimeRetryTimer = null;
+    }
+    const channel = this.realtimeChannel;
+    this.realtimeChannel = null;
+    this.service.realtime = "disabled";
+    if (channel) {
+      void (this.supabase ? this.supabase.removeChannel(channel) : channel.unsubscribe()).catch(() => {
+        // ignore
+      });
+    }
+  }
+
+  private scheduleRealtimeRetry() {
+    if (this.realtimeRetryTimer || !this.service.running) return;
+    this.realtimeRetryTimer = setTimeout(() => {
+      this.realtimeRetryTimer = null;
+      if (!this.service.running || !this.config.realtimeEnabled) return;
+      try {
+        this.startRealtime();
+      } catch (error) {
+        this.pushLog("WARN", `Riconnessione realtime fallita: ${normalizeError(error)}`);
+        this.service.realtime = "fallback";
+        this.scheduleRealtimeRetry();
+      }
+    }, REALTIME_RESUBSCRIBE_MS);
+  }
+
+  private requestTick() {
+    if (!this.service.running) return;
+    if (this.service.processing) {
+      // Picked up as soon as the current tick finishes.
+      this.service.tickRequested = true;
+      return;
+    }
+    if (this.service.timer) {
+      clearTimeout(this.service.timer);
+      this.service.timer = null;
+    }
+    void this.runTick();
+  }
+
+  private scheduleNextTick() {
+    if (!this.service.running) return;
+    if (this.service.timer) clearTimeout(this.service.timer);
+    let delay = this.service.realtime === "live" ? this.config.safetyPollMs : this.config.pollMs;
+    if (this.service.tickRequested) {
+      this.service.tickRequested = false;
+      delay = 0;
+    }
+    this.service.timer = setTimeout(() => {
+      this.service.timer = null;
+      void this.runTick();
+    }, delay);
+  }
+
   private async fetchAssignedPrinterId() {
     if (!this.authState.restaurant?.id) return null;
     const client = this.ensureSupabaseClient();
@@ -1120,113 +3931,949 @@ export class DesktopPrintWorker {
     }
   }
 
-  private async fetchLivePrinterRoutes(restaurantId: string): Promise<LiveRoutes> {
-    const client = this.ensureSupabaseClient();
-    const { data, error } = await client
-      .from("restaurants")
-      .select("settings")
-      .eq("id", restaurantId)
-      .maybeSingle();
-    if (error) throw error;
-    const settings = (data?.settings && typeof data.settings === "object" ? data.settings : {}) as Record<string, unknown>;
-    const printing =
-      settings.printing && typeof settings.printing === "object" ? (settings.printing as Record<string, unknown>) : {};
-    const printersRaw = Array.isArray(printing.printers) ? printing.printers : [];
-    const byId = new Map<string, LivePrinter>();
-    const byDepartment = new Map<string, LivePrinter>();
+  private async fetchLivePrinterRoutes(restaurantId: string): Promise<LiveRoutes> {
+    const client = this.ensureSupabaseClient();
+    const { data, error } = await client
+      .from("restaurants")
+      .select("settings")
+      .eq("id", restaurantId)
+      .maybeSingle();
+    if (error) throw error;
+    const settings = (data?.settings && typeof data.settings === "object" ? data.settings : {}) as Record<string, unknown>;
+    const printing =
+      settings.printing && typeof settings.printing === "object" ? (settings.printing as Record<string, unknown>) : {};
+    const printersRaw = Array.isArray(printing.printers) ? printing.printers : [];
+    const fiscal = parseFiscalRtConfig(printing.rt_departments);
+    this.lastFiscalConfig = { restaurantId, config: fiscal };
+    const byId = new Map<string, LivePrinter>();
+    const byDepartment = new Map<string, LivePrinter[]>();
+
+    for (const rawPrinter of printersRaw) {
+      const printer = (rawPrinter && typeof rawPrinter === "object" ? rawPrinter : {}) as Record<string, unknown>;
+      const id = String(printer.id || "").trim();
+      if (!id) continue;
+      const mapped: LivePrinter = {
+        id,
+        name: String(printer.name || "").trim() || id,
+        host: String(printer.host || "").trim(),
+        port: sanitizePrinterPort(printer.port),
+        enabled: printer.enabled !== false,
+        departments: Array.isArray(printer.departments)
+          ? printer.departments.map((entry) => normalizeDepartment(entry)).filter(Boolean)
+          : [],
+        statusMode: sanitizePrinterStatusMode(printer.status_mode),
+        copies: sanitizePrinterCopies(printer.copies),
+        mandatory: printer.mandatory !== false,
+        paper: resolvePaperProfile(printer.paper_width, printer.font),
+        encoding: resolvePrinterEncoding(printer.encoding, printer.code_page),
+        drawer: parseCashDrawerConfig(printer.cash_drawer),
+        buzzer: parseBuzzerConfig(printer.buzzer),
+      };
+      byId.set(id, mapped);
+      if (mapped.enabled && mapped.host) {
+        for (const dep of mapped.departments) {
+          byDepartment.set(dep, [...(byDepartment.get(dep) || []), mapped]);
+        }
+      }
+    }
+
+    // department -> ordered printer ids to try when the department printer is down.
+    const fallbacksByDepartment = new Map<string, LivePrinter[]>();
+    const fallbacksRaw =
+      printing.department_fallbacks && typeof printing.department_fallbacks === "object"
+        ? (printing.department_fallbacks as Record<string, unknown>)
+        : {};
+    for (const [rawDep, rawIds] of Object.entries(fallbacksRaw)) {
+      if (!Array.isArray(rawIds)) continue;
+      const fallbacks = rawIds
+        .map((rawId) => byId.get(String(rawId || "").trim()))
+        .filter((printer): printer is LivePrinter => Boolean(printer && printer.enabled && printer.host));
+      if (fallbacks.length > 0) fallbacksByDepartment.set(normalizeDepartment(rawDep), fallbacks);
+    }
+
+    return {
+      byId,
+      byDepartment,
+      fallbacksByDepartment,
+      defaultPrinterId: String(printing.default_printer_id || "").trim() || null,
+      splitByItemDepartment: printing.split_by_item_department === true,
+      templates: this.readTicketTemplates(printing.ticket_templates),
+      dishTranslations: parseDishTranslations(printing.dish_translations),
+      reviewUrl: String(printing.review_url || "").trim() || null,
+      logo: String(printing.logo_url || "").trim()
+        ? {
+            url: String(printing.logo_url).trim(),
+            widthDots: Number.isInteger(Number(printing.logo_width)) ? Number(printing.logo_width) : null,
+          }
+        : null,
+      allergenKeywords: parseAllergenKeywords(printing.allergen_keywords),
+      fiscal,
+    };
+  }
+
+  private readTicketTemplates(raw: unknown) {
+    const { templates, errors } = parseTicketTemplates(raw);
+    // Settings are re-read every tick: only report errors when they change.
+    const errorsKey = errors.join("\n");
+    if (errorsKey !== this.ticketTemplateErrors) {
+      this.ticketTemplateErrors = errorsKey;
+      for (const message of errors) this.pushLog("WARN", `Template ticket: ${message}`);
+      if (errors.length > 0) this.pushLog("WARN", "Blocchi template non validi ignorati: uso il layout predefinito dove serve");
+    }
+    return templates;
+  }
+
+  /**
+   * Resolves every printer a job must come out of: the snapshot printer, otherwise all
+   * printers of the job department, otherwise the default printer.
+   */
+  private resolveRoutesForJob(
+    job: JobRow,
+    liveRoutes: LiveRoutes | null,
+    departmentOverride: string | null = null,
+  ): PrinterTarget[] {
+    const snapshotRoute = (job.route && typeof job.route === "object" ? job.route : {}) as Record<string, unknown>;
+    // A department override comes from item-level splitting: the job-wide snapshot printer no longer applies.
+    const snapshotId = departmentOverride ? null : String(snapshotRoute.id || snapshotRoute.printer_id || "").trim() || null;
+    const snapshotHost = String(snapshotRoute.host || "").trim();
+    const snapshotPort = sanitizePrinterPort(snapshotRoute.port);
+    const dep = departmentOverride || normalizeDepartment(job.department);
+    const withFallbacks = (primaries: LivePrinter[]): PrinterTarget[] => {
+      const primaryIds = new Set(primaries.map((printer) => printer.id));
+      const fallbacks = (liveRoutes?.fallbacksByDepartment.get(dep) || []).filter((printer) => !primaryIds.has(printer.id));
+      return primaries.map((primary) => ({ ...toPrinterTarget(primary), fallbacks: fallbacks.map(toPrinterTarget) }));
+    };
+
+    const byDep = (liveRoutes?.byDepartment.get(dep) || []).filter((printer) => printer.enabled && printer.host);
+    if (liveRoutes?.byId && snapshotId) {
+      const live = liveRoutes.byId.get(snapshotId);
+      if (live && live.enabled && live.host) {
+        // The snapshot printer goes first; the department's other printers still get their copy.
+        return withFallbacks([live, ...byDep.filter((printer) => printer.id !== live.id)]);
+      }
+    }
+    if (byDep.length > 0) {
+      return withFallbacks(byDep);
+    }
+    if (departmentOverride) return [];
+    if (liveRoutes?.byId && liveRoutes.defaultPrinterId) {
+      const fallback = liveRoutes.byId.get(liveRoutes.defaultPrinterId);
+      if (fallback && fallback.enabled && fallback.host) {
+        return withFallbacks([fallback]);
+      }
+    }
+    if (snapshotHost) {
+      return [
+        {
+          id: snapshotId,
+          name: String(snapshotRoute.name || snapshotId || snapshotHost),
+          host: snapshotHost,
+          port: snapshotPort,
+          statusMode: sanitizePrinterStatusMode(snapshotRoute.status_mode),
+          copies: sanitizePrinterCopies(snapshotRoute.copies),
+          paper: resolvePaperProfile(snapshotRoute.paper_width, snapshotRoute.font),
+          encoding: resolvePrinterEncoding(snapshotRoute.encoding, snapshotRoute.code_page),
+          buzzer: parseBuzzerConfig(snapshotRoute.buzzer),
+        },
+      ];
+    }
+    return [];
+  }
+
+  /**
+   * Prints the ticket on the routed printer, redirecting to the first healthy department
+   * fallback when the primary is known to be down or refuses the connection. Only when every
+   * candidate fails does the job wait in the primary printer's hold queue.
+   */
+  private async sendToPrinter(
+    job: JobRow,
+    route: PrinterTarget | null,
+    ticket: KitchenTicketOptions,
+  ): Promise<PrinterSendResult> {
+    const host = String(route?.host || "").trim();
+    if (!route || !host) throw new Error("NO_PRINTER_HOST");
+    const primary = { ...route, host, port: sanitizePrinterPort(route.port) };
+    const label = `job ${String(job.id).slice(0, 8)}`;
+    const copies = sanitizePrinterCopies(primary.copies);
+    const ticketPayload = async (candidate: PrinterTarget, redirectedFrom: PrinterTarget | null) => {
+      // Rendered per candidate: a redirect to a printer with different paper re-wraps the ticket.
+      const paper = candidate.paper || resolvePaperProfile(null, null);
+      const encoding = candidate.encoding || resolvePrinterEncoding(null, null);
+      const logo = templateUsesLogo(ticket.template) ? await this.loadLogoRaster(ticket.logo, paper) : null;
+      const single = buildEscPosPayload(
+        renderTicket(job, ticket.template, paper, {
+          redirectedFrom: redirectedFrom?.name,
+          part: ticket.part,
+          translations: ticket.translations,
+          logo,
+          encoding,
+          allergenKeywords: ticket.allergenKeywords,
+          originalPrintedAt: ticket.originalPrintedAt,
+        }),
+        paper,
+        encoding,
+      );
+      const printed = copies > 1 ? Buffer.concat(Array.from({ length: copies }, () => single)) : single;
+      // One beep per ticket, not per copy, so the kitchen notices the order as it comes out.
+      return candidate.buzzer ? Buffer.concat([buildBuzzerCommand(candidate.buzzer), printed]) : printed;
+    };
+    const fallbacks = primary.fallbacks || [];
+    if (fallbacks.length > 0) {
+      let lastError: unknown = null;
+      let primaryFault: unknown = null;
+      for (const candidate of [primary, ...fallbacks]) {
+        if (!this.isPrinterHealthy(candidate)) continue;
+        const redirectedFrom = candidate === primary ? null : primary;
+        try {
+          const delivery = await this.deliverToPrinter(candidate, await ticketPayload(candidate, redirectedFrom), label, {
+            allowHold: false,
+          });
+          if (redirectedFrom) {
+            this.pushLog("WARN", `Job ${String(job.id).slice(0, 8)} reindirizzato da ${primary.name} a ${candidate.name}`);
+          }
+          return { delivery, printer: candidate, redirectedFrom };
+        } catch (error) {
+          // Any failure (offline, cover open, paper out) moves on: that is what fallbacks are for.
+          lastError = error;
+          if (candidate === primary && !shouldRetryPrintLocally(error)) primaryFault = error;
+        }
+      }
+      if (lastError) this.pushLog("WARN", `Nessuna stampante di riserva disponibile per ${label}: ${normalizeError(lastError)}`);
+      // A faulted primary cannot be waited for in the hold queue: fail with what the candidates reported.
+      if (primaryFault) throw lastError;
+    }
+    const delivery = await this.deliverToPrinter(primary, await ticketPayload(primary, null), label, { jobId: job.id });
+    return { delivery, printer: primary, redirectedFrom: null };
+  }
+
+  private isPrinterHealthy(target: PrinterTarget) {
+    const key = printerTargetKey(target);
+    if (this.heldPrinters.has(key)) return false;
+    const entry = this.printerStatus.get(key);
+    if (entry?.reachable === false) return false;
+    return !(entry?.status && isBlockingPrinterStatus(entry.status));
+  }
+
+  /**
+   * Writes a payload to a raw-socket printer. When the printer is unreachable the payload is
+   * parked in a per-printer queue and retried with backoff for `offlineHoldMs`; later payloads
+   * for the same printer queue up behind it so tickets keep their order.
+   */
+  private async deliverToPrinter(
+    target: PrinterTarget,
+    payload: Buffer,
+    label: string,
+    options: { allowHold?: boolean; jobId?: string } = {},
+  ): Promise<PrinterDelivery> {
+    return this.runInPrinterLane(target, () => this.deliverInLane(target, payload, label, options));
+  }
+
+  /**
+   * Runs a task after every task already queued for the same printer. Tick lanes keep one
+   * printer's own jobs in order; this also covers a ticket redirected from another printer's
+   * lane, so a printer never gets two connections at once.
+   */
+  private runInPrinterLane<T>(target: PrinterTarget, task: () => Promise<T>): Promise<T> {
+    const key = printerTargetKey(target);
+    const run = (this.printerLanes.get(key) || Promise.resolve()).then(task);
+    const tail = run.then(
+      () => undefined,
+      () => undefined,
+    );
+    this.printerLanes.set(key, tail);
+    void tail.then(() => {
+      if (this.printerLanes.get(key) === tail) this.printerLanes.delete(key);
+    });
+    return run;
+  }
+
+  private async deliverInLane(
+    target: PrinterTarget,
+    payload: Buffer,
+    label: string,
+    options: { allowHold?: boolean; jobId?: string },
+  ): Promise<PrinterDelivery> {
+    const allowHold = options.allowHold ?? true;
+    const jobId = options.jobId ?? null;
+    const waiting = this.heldPrinters.get(printerTargetKey(target));
+    if (waiting && allowHold) return { held: true, done: this.enqueueHeldDelivery(waiting, label, payload, jobId) };
+
+    let lastError: unknown = null;
+    for (let attempt = 1; attempt <= 2; attempt += 1) {
+      try {
+        await this.writeToPrinterSocket(target, payload);
+        return { held: false };
+      } catch (error) {
+        lastError = error;
+        if (attempt >= 2 || !shouldRetryPrintLocally(error)) break;
+        await sleep(500);
+      }
+    }
+    if (allowHold && this.config.offlineHoldMs > 0 && shouldRetryPrintLocally(lastError)) {
+      const queue = this.openHeldPrinterQueue(target, lastError);
+      return { held: true, done: this.enqueueHeldDelivery(queue, label, payload, jobId) };
+    }
+    throw new Error(`${normalizeError(lastError)} (target ${target.host}:${target.port})`);
+  }
+
+  private async writeToPrinterSocket(target: PrinterTarget, payload: Buffer) {
+    const key = printerTargetKey(target);
+    const known = this.printerStatus.get(key);
+    const skipStatus =
+      known?.supported === false && Date.now() - new Date(known.updatedAt).getTime() < STATUS_UNSUPPORTED_RETRY_MS;
+    this.activePrinterWrites.set(key, (this.activePrinterWrites.get(key) || 0) + 1);
+    try {
+      await openRawSocket(target.host, target.port, payload, {
+        statusMode: skipStatus ? "off" : target.statusMode ?? "off",
+        onStatus: (status) => this.updatePrinterStatus(target, status),
+      });
+      this.markPrinterReachability(target, null);
+    } catch (error) {
+      this.markPrinterReachability(target, error);
+      throw error;
+    } finally {
+      const active = (this.activePrinterWrites.get(key) || 1) - 1;
+      if (active > 0) this.activePrinterWrites.set(key, active);
+      else this.activePrinterWrites.delete(key);
+    }
+  }
+
+  private touchPrinterEntry(target: PrinterTarget) {
+    const key = printerTargetKey(target);
+    const entry: PrinterStatusEntry = this.printerStatus.get(key) || {
+      printerId: target.id,
+      printerName: target.name,
+      host: target.host,
+      port: target.port,
+      reachable: null,
+      supported: null,
+      status: null,
+      lastSuccessAt: null,
+      lastError: null,
+      updatedAt: new Date().toISOString(),
+    };
+    entry.printerId = target.id ?? entry.printerId;
+    entry.printerName = target.name;
+    entry.updatedAt = new Date().toISOString();
+    this.printerStatus.set(key, entry);
+    return entry;
+  }
+
+  private updatePrinterStatus(target: PrinterTarget, status: PrinterStatusSnapshot | null) {
+    const entry = this.touchPrinterEntry(target);
+    const previousState = entry.status?.state ?? null;
+    const previousSupported = entry.supported;
+    entry.supported = status != null;
+    entry.status = status;
+    if (status && status.state !== previousState) {
+      this.pushLog(status.state === "ok" ? "INFO" : "WARN", `Stampante ${target.name}: ${status.message}`);
+    } else if (!status && previousSupported !== false) {
+      this.pushLog("INFO", `Stampante ${target.name} non risponde alle richieste di stato ESC/POS`);
+    }
+    this.broadcastState();
+  }
+
+  private markPrinterReachability(target: PrinterTarget, error: unknown) {
+    const entry = this.touchPrinterEntry(target);
+    const message = error == null ? null : normalizeError(error);
+    // A refused job because of paper/cover still proves the printer answered on the network.
+    const reachable = message == null || /printer_not_ready|printer_fault/i.test(message);
+    entry.reachable = reachable;
+    if (reachable) entry.lastSuccessAt = entry.updatedAt;
+    if (message) entry.lastError = message;
+  }
+
+  private scheduleHealthProbe(delayMs = this.config.healthProbeMs) {
+    if (this.healthTimer) {
+      clearTimeout(this.healthTimer);
+      this.healthTimer = null;
+    }
+    if (!this.service.running || this.config.healthProbeMs <= 0) return;
+    this.healthTimer = setTimeout(() => {
+      this.healthTimer = null;
+      void this.runHealthProbe();
+    }, delayMs);
+  }
+
+  /** Probes every enabled printer from the live settings and pushes the result to the dashboard. */
+  private async runHealthProbe() {
+    try {
+      const restaurantId = this.authState.restaurant?.id;
+      if (!restaurantId) return;
+      const liveRoutes = await this.fetchLivePrinterRoutes(restaurantId);
+      const printers = Array.from(liveRoutes.byId.values()).filter((printer) => printer.enabled && printer.host);
+      await runWithConcurrency(printers, HEALTH_PROBE_CONCURRENCY, (printer) => this.probePrinterHealth(printer));
+      await this.reportPrinterHealth(printers);
+      this.broadcastState();
+    } catch (error) {
+      this.pushLog("WARN", `Controllo stato stampanti fallito: ${normalizeError(error)}`);
+    } finally {
+      this.scheduleHealthProbe();
+    }
+  }
+
+  private async probePrinterHealth(printer: LivePrinter) {
+    const target: PrinterTarget = {
+      id: printer.id,
+      name: printer.name,
+      host: printer.host,
+      port: printer.port,
+      statusMode: printer.statusMode,
+    };
+    const key = printerTargetKey(target);
+    // Do not compete with a print in progress; held printers are already known to be down.
+    if (this.activePrinterWrites.has(key) || this.heldPrinters.has(key)) return;
+    const known = this.printerStatus.get(key);
+    const skipStatus =
+      known?.supported === false && Date.now() - new Date(known.updatedAt).getTime() < STATUS_UNSUPPORTED_RETRY_MS;
+    const statusMode = skipStatus ? "off" : printer.statusMode;
+    const result = await queryPrinterStatus(printer.host, printer.port, statusMode, HEALTH_PROBE_TIMEOUT_MS);
+    if (!result.reachable) {
+      const wasReachable = known?.reachable !== false;
+      this.markPrinterReachability(target, new Error(result.error || "Stampante non raggiungibile"));
+      if (wasReachable) this.pushLog("WARN", `Stampante ${printer.name} non raggiungibile: ${result.error || "n/d"}`);
+      return;
+    }
+    if (statusMode !== "off") this.updatePrinterStatus(target, result.status);
+    this.markPrinterReachability(target, null);
+  }
+
+  private async reportPrinterHealth(printers: LivePrinter[]) {
+    if (!this.printerHealthRpcAvailable || !this.authState.restaurant?.id) return;
+    const rows = printers.map((printer) => {
+      const entry = this.printerStatus.get(printerTargetKey(printer));
+      const held = this.heldPrinters.get(printerTargetKey(printer));
+      const reachable = held ? false : entry?.reachable ?? null;
+      const statusState = entry?.status?.state ?? null;
+      const health =
+        reachable === false
+          ? "offline"
+          : reachable == null
+          ? "unknown"
+          : statusState === "paper_low"
+          ? "paper_low"
+          : statusState && statusState !== "ok"
+          ? "error"
+          : "online";
+      return {
+        printer_id: printer.id,
+        printer_name: printer.name,
+        host: printer.host,
+        port: printer.port,
+        health,
+        status_state: statusState,
+        status_message: entry?.status?.message ?? null,
+        last_success_at: entry?.lastSuccessAt ?? null,
+        last_error: held?.lastError ?? entry?.lastError ?? null,
+        checked_at: entry?.updatedAt ?? new Date().toISOString(),
+      };
+    });
+    const client = this.ensureSupabaseClient();
+    const { error } = await client.rpc("printing_report_printer_health", {
+      p_restaurant_id: this.authState.restaurant.id,
+      p_agent_id: this.config.consumerId,
+      p_printers: rows,
+    });
+    if (error) {
+      if (isMissingRpcError(error, "printing_report_printer_health")) {
+        this.printerHealthRpcAvailable = false;
+        this.pushLog("WARN", "RPC printing_report_printer_health non trovata: applica la migrazione stato stampanti.");
+        return;
+      }
+      throw error;
+    }
+  }
+
+  private openHeldPrinterQueue(target: PrinterTarget, error: unknown) {
+    const queue: HeldPrinterQueue = {
+      target,
+      deliveries: [],
+      since: new Date().toISOString(),
+      attempts: 0,
+      nextRetryAt: Date.now(),
+      lastError: normalizeError(error),
+      timer: null,
+    };
+    this.heldPrinters.set(printerTargetKey(target), queue);
+    this.pushLog(
+      "WARN",
+      `In attesa della stampante ${target.name} (${target.host}:${target.port}): ${queue.lastError}`,
+    );
+    this.scheduleHeldRetry(queue);
+    return queue;
+  }
+
+  private enqueueHeldDelivery(queue: HeldPrinterQueue, label: string, payload: Buffer, jobId: string | null) {
+    return new Promise<void>((resolve, reject) => {
+      queue.deliveries.push({
+        label,
+        jobId,
+        payload,
+        deadline: Date.now() + this.config.offlineHoldMs,
+        resolve,
+        reject,
+      });
+      this.broadcastState();
+    });
+  }
+
+  private scheduleHeldRetry(queue: HeldPrinterQueue) {
+    if (queue.timer) clearTimeout(queue.timer);
+    let delay = Math.min(HELD_RETRY_MAX_MS, HELD_RETRY_BASE_MS * 2 ** queue.attempts);
+    const firstDeadline = Math.min(...queue.deliveries.map((delivery) => delivery.deadline));
+    if (Number.isFinite(firstDeadline)) delay = Math.max(0, Math.min(delay, firstDeadline - Date.now()));
+    queue.nextRetryAt = Date.now() + delay;
+    queue.timer = setTimeout(() => {
+      queue.timer = null;
+      void this.drainHeldPrinter(queue);
+    }, delay);
+  }
+
+  private async drainHeldPrinter(queue: HeldPrinterQueue) {
+    const key = printerTargetKey(queue.target);
+    if (this.heldPrinters.get(key) !== queue) return;
+    let recovered = false;
+    while (queue.deliveries.length > 0) {
+      const now = Date.now();
+      for (const delivery of queue.deliveries.filter((row) => row.deadline <= now)) {
+        const waitedS = Math.round((now - new Date(queue.since).getTime()) / 1000);
+        delivery.reject(
+          new Error(`Stampante ${queue.target.name} non raggiungibile da ${waitedS}s: ${queue.lastError} (target ${key})`),
+        );
+      }
+      queue.deliveries = queue.deliveries.filter((row) => row.deadline > now);
+      const head = queue.deliveries[0];
+      if (!head) break;
+      try {
+        await this.runInPrinterLane(queue.target, () => this.writeToPrinterSocket(queue.target, head.payload));
+      } catch (error) {
+        if (this.heldPrinters.get(key) !== queue) return;
+        queue.lastError = normalizeError(error);
+        if (!shouldRetryPrintLocally(error)) {
+          queue.deliveries.shift();
+          head.reject(new Error(`${queue.lastError} (target ${key})`));
+          continue;
+        }
+        queue.attempts += 1;
+        this.scheduleHeldRetry(queue);
+        this.broadcastState();
+        return;
+      }
+      if (this.heldPrinters.get(key) !== queue) return;
+      queue.deliveries.shift();
+      queue.attempts = 0;
+      recovered = true;
+      head.resolve();
+    }
+    this.heldPrinters.delete(key);
+    if (recovered) {
+      this.pushLog("INFO", `Stampante ${queue.target.name} di nuovo disponibile: coda svuotata`);
+    } else {
+      this.pushLog("WARN", `Attesa stampante ${queue.target.name} terminata senza risposta`);
+    }
+    this.broadcastState();
+  }
+
+  private dropHeldPrinters() {
+    const deliveries: HeldDelivery[] = [];
+    for (const queue of this.heldPrinters.values()) {
+      if (queue.timer) clearTimeout(queue.timer);
+      deliveries.push(...queue.deliveries);
+      queue.deliveries = [];
+    }
+    this.heldPrinters.clear();
+    // Rejected only after the map is cleared, so waiting parts see the printers as released.
+    for (const delivery of deliveries) delivery.reject(new Error(HELD_DROPPED_ERROR));
+    if (deliveries.length > 0) {
+      this.pushLog("WARN", `${deliveries.length} job in attesa di stampante scartati: verranno riconsegnati dal server`);
+    }
+  }
+
+  private isJobHeld(jobId: string) {
+    for (const queue of this.heldPrinters.values()) {
+      if (queue.deliveries.some((delivery) => delivery.jobId === jobId)) return true;
+    }
+    return false;
+  }
+
+  /** Forgets a claimed job without an outcome, so the server delivers it again. */
+  private async releaseSpooledJob(kind: SpoolJobKind, jobId: string) {
+    if (this.spool.delete(spoolKey(kind, jobId))) await this.persistSpool();
+  }
+
+  /**
+   * Claims a kitchen job locally and splits it into one task per destination printer.
+   * The job is acknowledged once, after every part has printed, failed or expired.
+   */
+  private async planPrintJob(job: JobRow, liveRoutes: LiveRoutes | null, options: { reprint?: boolean } = {}) {
+    const reprint = options.reprint === true;
+    if (!reprint && this.isJobHeld(job.id)) {
+      this.pushLog("WARN", `Job ${String(job.id).slice(0, 8)} già in coda su una stampante in attesa: ignoro la riconsegna`);
+      return [];
+    }
+    if (!reprint) await this.spoolClaimed("print", job.id);
+    const alreadyPrinted = reprint ? null : this.findAlreadyPrinted("print", job.id, job.payload);
+    if (alreadyPrinted) {
+      this.service.stats.deduplicated += 1;
+      this.pushLog(
+        "WARN",
+        `Job ${String(job.id).slice(0, 8)} già stampato (${formatTimestamp(alreadyPrinted.printedAt)}): ripeto solo la conferma`,
+      );
+      await this.settleSpooledJob("print", job.id, { success: true, error: null, receiptId: null });
+      return [];
+    }
+    const templates = liveRoutes?.templates || DEFAULT_TICKET_TEMPLATES;
+    const translations = liveRoutes?.dishTranslations || new Map<string, string>();
+    const allergenKeywords = liveRoutes?.allergenKeywords || DEFAULT_ALLERGEN_KEYWORDS;
+    const allergenItems = countAllergenItems(job, allergenKeywords);
+    const variation = isVariationJob(job);
+    const originalPrintedAt = variation ? this.describeVariation(job) : null;
+    const templateFor = (department: string) =>
+      variation ? templates.variation : resolveKitchenTemplate(templates, department);
+    this.reportUntranslatedDishes(job, translations);
+    const split = this.splitJobByItemDepartment(job, liveRoutes);
+    const parts = split
+      ? split.map(({ target, ticket }) => ({
+          target,
+          ticket: {
+            template: templateFor(ticket.departments[0] || ""),
+            part: ticket,
+            translations,
+            logo: liveRoutes?.logo || null,
+            allergenKeywords,
+            originalPrintedAt,
+          },
+        }))
+      : this.resolveRoutesForJob(job, liveRoutes).map((target) => ({
+          target,
+          ticket: {
+            template: templateFor(normalizeDepartment(job.department)),
+            part: null,
+            translations,
+            logo: liveRoutes?.logo || null,
+            allergenKeywords,
+            originalPrintedAt,
+          },
+        }));
+    if (parts.length === 0) {
+      if (!reprint) await this.finishPrintJob(job, [], { failure: "NO_PRINTER_HOST", allergenItems });
+      return [];
+    }
+    if (split) {
+      const printers = split.length > split[0].ticket.count ? ` su ${split.length} stampanti` : "";
+      this.pushLog("INFO", `Job ${String(job.id).slice(0, 8)} diviso in ${split[0].ticket.count} comande per reparto${printers}`);
+    }
+    const results: PrintPartResult[] = [];
+    const report = async (result: PrintPartResult) => {
+      results.push(result);
+      if (results.length < parts.length) return;
+      if (!reprint && results.some((row) => row.error === HELD_DROPPED_ERROR)) {
+        await this.releaseSpooledJob("print", job.id);
+        return;
+      }
+      if (!reprint) {
+        await this.finishPrintJob(job, results, { allergenItems });
+        return;
+      }
+      const failed = results.filter((row) => row.error);
+      this.pushLog(
+        failed.length > 0 ? "ERROR" : "INFO",
+        failed.length > 0
+          ? `Ristampa job ${String(job.id).slice(0, 8)} fallita: ${failed.map((row) => `${row.target.name}: ${row.error}`).join("; ")}`
+          : `Ristampato job ${String(job.id).slice(0, 8)}`,
+      );
+    };
+    return parts.map(({ target, ticket }) => ({
+      laneKey: printerTargetKey(target),
+      run: () => this.printJobPart(job, target, ticket, report),
+    }));
+  }
 
-    for (const rawPrinter of printersRaw) {
-      const printer = (rawPrinter && typeof rawPrinter === "object" ? rawPrinter : {}) as Record<string, unknown>;
-      const id = String(printer.id || "").trim();
-      if (!id) continue;
-      const mapped: LivePrinter = {
-        id,
-        name: String(printer.name || "").trim() || id,
-        host: String(printer.host || "").trim(),
-        port: sanitizePrinterPort(printer.port),
-        enabled: printer.enabled !== false,
-        departments: Array.isArray(printer.departments)
-          ? printer.departments.map((entry) => normalizeDepartment(entry)).filter(Boolean)
-          : [],
-      };
-      byId.set(id, mapped);
-      if (mapped.enabled && mapped.host) {
-        for (const dep of mapped.departments) {
-          if (!byDepartment.has(dep)) byDepartment.set(dep, mapped);
+  /**
+   * Returns the restaurant logo dithered for the given paper: memory first, then the disk
+   * cache, then a download. Cached copies are revalidated with ETag/Last-Modified every
+   * LOGO_REFRESH_MS; when that fails the stale copy keeps printing, otherwise no logo.
+   */
+  private async loadLogoRaster(logo: LiveRoutes["logo"], paper: PaperProfile) {
+    if (!logo) return null;
+    const maxWidth = Math.min(paper.printableDots, logo.widthDots || Math.round(paper.printableDots / 2));
+    const key = crypto.createHash("sha1").update(`${logo.url}|${maxWidth}`).digest("hex");
+    const cachePath = path.join(this.logoCacheDir, `${key}.json`);
+    let cached = this.logoRasters.get(key) || null;
+    if (!cached) {
+      try {
+        const stored = JSON.parse(await fs.readFile(cachePath, "utf8")) as Record<string, unknown>;
+        const raster: TicketRaster = {
+          width: Number(stored.width),
+          height: Number(stored.height),
+          data: Buffer.from(String(stored.data || ""), "base64"),
+        };
+        if (raster.width > 0 && raster.data.length === Math.ceil(raster.width / 8) * raster.height) {
+          const checkedAt = Date.parse(String(stored.checked_at || ""));
+          cached = {
+            raster,
+            etag: typeof stored.etag === "string" ? stored.etag : null,
+            lastModified: typeof stored.last_modified === "string" ? stored.last_modified : null,
+            checkedAt: Number.isFinite(checkedAt) ? checkedAt : 0,
+          };
+          this.logoRasters.set(key, cached);
         }
+      } catch {
+        // not cached yet
+      }
+    }
+    if (cached && Date.now() - cached.checkedAt < LOGO_REFRESH_MS) return cached.raster;
+    const failedAt = this.logoFailures.get(key);
+    if (failedAt && Date.now() - failedAt < LOGO_RETRY_MS) return cached?.raster || null;
+    const controller = new AbortController();
+    const timeout = setTimeout(() => controller.abort(), LOGO_FETCH_TIMEOUT_MS);
+    try {
+      const headers: Record<string, string> = {};
+      if (cached?.etag) headers["If-None-Match"] = cached.etag;
+      if (cached?.lastModified) headers["If-Modified-Since"] = cached.lastModified;
+      const response = await fetch(logo.url, { signal: controller.signal, headers });
+      let next: CachedLogo;
+      if (response.status === 304 && cached) {
+        next = { ...cached, checkedAt: Date.now() };
+      } else {
+        if (!response.ok) throw new Error(`HTTP ${response.status}`);
+        const body = Buffer.from(await response.arrayBuffer());
+        if (body.length > LOGO_MAX_BYTES) throw new Error("LOGO_TOO_LARGE");
+        next = {
+          raster: rasterizeLogo(body, maxWidth),
+          etag: response.headers.get("etag"),
+          lastModified: response.headers.get("last-modified"),
+          checkedAt: Date.now(),
+        };
+        this.pushLog("INFO", `Logo convertito per stampa (${next.raster.width}x${next.raster.height} punti)`);
       }
+      this.logoRasters.set(key, next);
+      this.logoFailures.delete(key);
+      await writeJsonFileAtomic(cachePath, {
+        url: logo.url,
+        width: next.raster.width,
+        height: next.raster.height,
+        data: next.raster.data.toString("base64"),
+        etag: next.etag,
+        last_modified: next.lastModified,
+        checked_at: new Date(next.checkedAt).toISOString(),
+      }).catch((error) => this.pushLog("WARN", `Cache logo non scritta: ${normalizeError(error)}`));
+      return next.raster;
+    } catch (error) {
+      this.logoFailures.set(key, Date.now());
+      this.pushLog(
+        "WARN",
+        cached
+          ? `Logo non aggiornato, uso la copia in cache: ${normalizeError(error)}`
+          : `Logo non disponibile, stampo senza: ${normalizeError(error)}`,
+      );
+      return cached?.raster || null;
+    } finally {
+      clearTimeout(timeout);
     }
+  }
 
-    return {
-      byId,
-      byDepartment,
-      defaultPrinterId: String(printing.default_printer_id || "").trim() || null,
-    };
+  /**
+   * Looks up the order a variation refers to in the local print history (by original_job_id,
+   * else the earliest ticket of the same order) and returns when it printed.
+   */
+  private describeVariation(job: JobRow) {
+    const payload = (job.payload || {}) as Record<string, unknown>;
+    const originalJobId = String(payload.original_job_id || "").trim();
+    let original = originalJobId ? this.ledger.get(spoolKey("print", originalJobId)) || null : null;
+    const orderRef = orderRefFromPayload(payload);
+    if (!original && orderRef) {
+      for (const entry of this.ledger.values()) {
+        if (entry.kind !== "print" || entry.jobId === job.id || entry.orderRef !== orderRef) continue;
+        if (!original || entry.printedAt < original.printedAt) original = entry;
+      }
+    }
+    const label = isCancellationJob(job) ? "Storno" : "Variazione";
+    const orderLabel = orderRef ? `ordine ${orderRef}` : `job ${String(job.id).slice(0, 8)}`;
+    if (original) {
+      this.pushLog("INFO", `${label} ${orderLabel}: comanda originale stampata ${formatTimestamp(original.printedAt)}`);
+    } else {
+      this.pushLog("INFO", `${label} ${orderLabel}: comanda originale non presente nella cronologia locale`);
+    }
+    return original?.printedAt ?? null;
   }
 
-  private resolveRouteForJob(job: JobRow, liveRoutes: LiveRoutes | null) {
-    const snapshotRoute = (job.route && typeof job.route === "object" ? job.route : {}) as Record<string, unknown>;
-    const snapshotId = String(snapshotRoute.id || snapshotRoute.printer_id || "").trim() || null;
-    const snapshotHost = String(snapshotRoute.host || "").trim();
-    const snapshotPort = sanitizePrinterPort(snapshotRoute.port);
-    const dep = normalizeDepartment(job.department);
+  /** Logs dishes missing from the translation table, once per dish, so the table can be completed. */
+  private reportUntranslatedDishes(job: JobRow, translations: Map<string, string>) {
+    if (translations.size === 0) return;
+    const payload = (job.payload || {}) as Record<string, unknown>;
+    const items = Array.isArray(payload.items) ? payload.items : [];
+    const missing: string[] = [];
+    for (const rawItem of items) {
+      if (translateDishName(rawItem, translations)) continue;
+      const name = prettifyDishName(((rawItem || {}) as Record<string, unknown>).name);
+      const key = normalizeDishKey(name);
+      if (!key || this.untranslatedDishes.has(key)) continue;
+      this.untranslatedDishes.add(key);
+      missing.push(name);
+    }
+    if (missing.length > 0) this.pushLog("WARN", `Traduzione cucina mancante per: ${missing.join(", ")}`);
+  }
 
-    if (liveRoutes?.byId && snapshotId) {
-      const live = liveRoutes.byId.get(snapshotId);
-      if (live && live.enabled && live.host) {
-        return { id: live.id, name: live.name, host: live.host, port: live.port };
+  /**
+   * Groups the job items by their own department and returns one ticket per destination
+   * printer, or null when the job does not need splitting. Items whose department has no
+   * printer stay with the job department.
+   */
+  private splitJobByItemDepartment(job: JobRow, liveRoutes: LiveRoutes | null) {
+    const payload = (job.payload || {}) as Record<string, unknown>;
+    if (!liveRoutes?.splitByItemDepartment && payload.split_by_item_department !== true) return null;
+    const items = Array.isArray(payload.items) ? payload.items : [];
+    const jobDepartment = normalizeDepartment(payload.department || job.department);
+    const byDestination = new Map<string, { target: PrinterTarget; items: unknown[]; departments: string[] }>();
+    const routesByDepartment = new Map<string, PrinterTarget[]>();
+    const usedDepartments = new Set<string>();
+    for (const item of items) {
+      let dep = itemDepartment(item, jobDepartment);
+      let targets = routesByDepartment.get(dep);
+      if (!targets) {
+        targets = dep === jobDepartment ? this.resolveRoutesForJob(job, liveRoutes) : this.resolveRoutesForJob(job, liveRoutes, dep);
+        routesByDepartment.set(dep, targets);
       }
-    }
-    if (liveRoutes?.byDepartment) {
-      const byDep = liveRoutes.byDepartment.get(dep);
-      if (byDep && byDep.enabled && byDep.host) {
-        return { id: byDep.id, name: byDep.name, host: byDep.host, port: byDep.port };
+      if (targets.length === 0 && dep !== jobDepartment) {
+        dep = jobDepartment;
+        targets = routesByDepartment.get(dep) || this.resolveRoutesForJob(job, liveRoutes);
+        routesByDepartment.set(dep, targets);
       }
-    }
-    if (liveRoutes?.byId && liveRoutes.defaultPrinterId) {
-      const fallback = liveRoutes.byId.get(liveRoutes.defaultPrinterId);
-      if (fallback && fallback.enabled && fallback.host) {
-        return { id: fallback.id, name: fallback.name, host: fallback.host, port: fallback.port };
+      usedDepartments.add(dep);
+      for (const target of targets) {
+        const key = printerTargetKey(target);
+        const destination = byDestination.get(key) || { target, items: [], departments: [] };
+        destination.items.push(item);
+        if (!destination.departments.includes(dep)) destination.departments.push(dep);
+        byDestination.set(key, destination);
       }
     }
-    if (snapshotHost) {
-      return {
-        id: snapshotId,
-        name: String(snapshotRoute.name || snapshotId || snapshotHost),
-        host: snapshotHost,
-        port: snapshotPort,
+    if (usedDepartments.size <= 1 || byDestination.size === 0) return null;
+    const destinations = Array.from(byDestination.values());
+    // Printers of one department print the same part: number parts by content, not by printer.
+    const partKeys = Array.from(new Set(destinations.map((destination) => destination.departments.join("/"))));
+    return destinations.map((destination) => {
+      const ticket: TicketPart = {
+        items: destination.items,
+        departments: destination.departments,
+        index: partKeys.indexOf(destination.departments.join("/")) + 1,
+        count: partKeys.length,
       };
+      return { target: destination.target, ticket };
+    });
+  }
+
+  private async printJobPart(
+    job: JobRow,
+    target: PrinterTarget,
+    ticket: KitchenTicketOptions,
+    report: (result: PrintPartResult) => Promise<void>,
+  ) {
+    // Parts are tracked in the ledger too, so a re-delivered job skips printers it already reached.
+    const partId = `${job.id}@${target.id || printerTargetKey(target)}`;
+    if (job.payload?.force_reprint !== true && this.ledger.has(spoolKey("print", partId))) {
+      await report({ target, printer: target, redirectedFrom: null, error: null, skipped: true });
+      return;
     }
-    return null;
+    let sent: PrinterSendResult;
+    try {
+      sent = await this.sendToPrinter(job, target, ticket);
+    } catch (jobError) {
+      await report({ target, printer: target, redirectedFrom: null, error: normalizeError(jobError), skipped: false });
+      return;
+    }
+    const settle = async (error: string | null) => {
+      if (error == null) await this.recordPrinted("print", partId);
+      await report({ target, printer: sent.printer, redirectedFrom: sent.redirectedFrom, error, skipped: false });
+    };
+    if (sent.delivery.held) {
+      this.pushLog("WARN", `Job ${String(job.id).slice(0, 8)} in coda: stampante ${sent.printer.name} in attesa`);
+      void sent.delivery.done.then(
+        () => settle(null),
+        (error) => settle(normalizeError(error)),
+      );
+      return;
+    }
+    await settle(null);
   }
 
-  private async sendToPrinter(job: JobRow, routeOverride: { host: string; port: number } | null) {
-    const host = String(routeOverride?.host || "").trim();
-    const port = sanitizePrinterPort(routeOverride?.port);
-    if (!host) throw new Error("NO_PRINTER_HOST");
-    const payload = buildEscPosPayload(renderTicket(job));
-    let lastError: unknown = null;
-    for (let attempt = 1; attempt <= 2; attempt += 1) {
-      try {
-        await openRawSocket(host, port, payload);
-        return;
-      } catch (error) {
-        lastError = error;
-        if (attempt >= 2 || !shouldRetryPrintLocally(error)) break;
-        await sleep(500);
+  private async finishPrintJob(
+    job: JobRow,
+    results: PrintPartResult[],
+    options: { failure?: string | null; allergenItems?: number } = {},
+  ) {
+    const failureOverride = options.failure ?? null;
+    const allergenItems = options.allergenItems ?? 0;
+    const failedParts = results.filter((result) => result.error);
+    const mandatoryFailures = failedParts.filter((result) => result.target.mandatory !== false);
+    const printedParts = results.filter((result) => !result.error);
+    const describe = (rows: PrintPartResult[]) => rows.map((row) => `${row.target.name}: ${row.error}`).join("; ");
+    const failure =
+      failureOverride ??
+      (mandatoryFailures.length > 0
+        ? describe(mandatoryFailures)
+        : printedParts.length === 0 && failedParts.length > 0
+        ? describe(failedParts)
+        : null);
+    const first = printedParts[0] || results[0] || null;
+    // Recorded in p_meta so the dashboard knows where each ticket actually came out.
+    const meta = {
+      printer_id: first?.printer.id ?? null,
+      printer_name: first?.printer.name ?? null,
+      redirected_from: first?.redirectedFrom
+        ? { printer_id: first.redirectedFrom.id, printer_name: first.redirectedFrom.name }
+        : null,
+      partial_failure: failure == null && failedParts.length > 0,
+      allergen_items: allergenItems,
+      targets: results.map((result) => ({
+        printer_id: result.target.id,
+        printer_name: result.target.name,
+        printed_on: result.error ? null : result.printer.name,
+        copies: sanitizePrinterCopies(result.target.copies),
+        mandatory: result.target.mandatory !== false,
+        ok: !result.error,
+        skipped: result.skipped,
+        error: result.error,
+      })),
+    };
+    const jobLabel = String(job.id).slice(0, 8);
+    // Logged with the outcome so allergen tickets can be audited from the job log alone.
+    const allergenNote = allergenItems > 0 ? ` [${allergenItems} piatti con allergeni]` : "";
+    if (failure == null) {
+      await this.recordPrinted("print", job.id, { orderRef: jobOrderRef(job) });
+      this.service.stats.printed += 1;
+      const destinations = printedParts.map((result) => result.printer.name).join(", ");
+      this.pushLog(
+        "INFO",
+        `Stampato job ${jobLabel} -> ${normalizeDepartment(job.department)} (${destinations})${allergenNote}`,
+      );
+      if (failedParts.length > 0) {
+        this.pushLog("WARN", `Job ${jobLabel} stampato parzialmente: ${describe(failedParts)}`);
       }
+      await this.settleSpooledJob("print", job.id, { success: true, error: null, receiptId: null, meta });
+    } else {
+      this.service.stats.failed += 1;
+      this.pushLog("ERROR", `Errore job ${jobLabel}${allergenNote}: ${failure}`);
+      await this.settleSpooledJob("print", job.id, { success: false, error: failure, receiptId: null, meta });
     }
-    throw new Error(`${normalizeError(lastError)} (target ${host}:${port})`);
+    if (!this.service.processing) this.broadcastState();
   }
 
-  private async completePrintJob(job: JobRow, success: boolean, errorMessage: string | null) {
+  private async completePrintJob(
+    jobId: string,
+    success: boolean,
+    errorMessage: string | null,
+    meta: Record<string, unknown> | null = null,
+  ) {
     const client = this.ensureSupabaseClient();
     const { error } = await client.rpc("print_complete_job", {
-      p_job_id: job.id,
+      p_job_id: jobId,
       p_consumer_id: this.config.consumerId,
       p_success: success,
       p_error: success ? null : String(errorMessage || "PRINT_FAILED").slice(0, 500),
       p_meta: {
+        ...meta,
         source: "desktop_all_in_one",
         device_name: this.config.deviceName,
         app_version: this.appVersion,
@@ -1235,7 +4882,12 @@ export class DesktopPrintWorker {
     if (error) throw error;
   }
 
-  private async postPhysicalReceipt(route: Record<string, unknown>, payload: Record<string, unknown>) {
+  /**
+   * Posts an FPMate command. An HTTP 200 whose body cannot be parsed is neither a success nor
+   * safe to retry (the RT may have issued the document), so it fails without a retryable
+   * message and asks the operator to check the device.
+   */
+  private async postFpMateXml(route: Record<string, unknown>, body: string, timeoutMs: number): Promise<FpMateResponse> {
     const host = String(route.host ?? "").trim();
     const brand = normalizePhysicalBrand(route.brand);
     const port = sanitizePhysicalPort(route.port, brand);
@@ -1243,9 +4895,8 @@ export class DesktopPrintWorker {
     if (!host) throw new Error("PHYSICAL_RT_HOST_MISSING");
 
     const endpoint = `http://${host}:${port}${apiPath}`;
-    const body = buildEpsonFiscalReceiptXml(payload);
     const controller = new AbortController();
-    const timeout = setTimeout(() => controller.abort(), 20000);
+    const timeout = setTimeout(() => controller.abort(), timeoutMs);
 
     try {
       const response = await fetch(endpoint, {
@@ -1260,24 +4911,69 @@ export class DesktopPrintWorker {
       if (!response.ok) {
         throw new Error(`HTTP ${response.status}: ${responseText || "RT response error"}`);
       }
-      if (/\b(error|fault|ko)\b/i.test(responseText)) {
-        throw new Error(responseText.slice(0, 500) || "RT_ERROR_RESPONSE");
+      const parsed = parseFpMateResponse(responseText);
+      if (!parsed) {
+        // The body stays out of the error: an HTML page mentioning "timeout" would make it retryable.
+        this.pushLog("WARN", `RT ${host}:${port}: risposta non riconosciuta (${responseText.slice(0, 200) || "vuota"})`);
+        throw new Error(`${FPMATE_UNREADABLE_ERROR}: risposta RT non riconosciuta, verificare sull'RT se il documento è stato emesso`);
       }
-      return extractReceiptIdFromResponse(responseText);
+      if (!parsed.success) throw new Error(parsed.error || "RT_ERROR_RESPONSE");
+      if (parsed.printerStatus?.warnings.length) {
+        this.pushLog("WARN", `RT ${host}:${port}: ${parsed.printerStatus.warnings.join(", ")}`);
+      }
+      return parsed;
     } finally {
       clearTimeout(timeout);
     }
   }
 
-  private async sendToPhysicalReceiptDevice(job: PhysicalReceiptJobRow) {
+  private async postPhysicalReceipt(route: Record<string, unknown>, body: string) {
+    const response = await this.postFpMateXml(route, body, 20000);
+    return { receiptId: fpMateDocumentId(response), fiscalDocument: issuedFiscalDocument(response) };
+  }
+
+  /** Looks up the original sale of an annullo/reso in the local ledger, when it was emitted here. */
+  private findOriginalReceipt(payload: Record<string, unknown>) {
+    const originalJobId = String(payload.original_job_id ?? "").trim();
+    return originalJobId ? this.ledger.get(spoolKey("physical_receipt", originalJobId)) || null : null;
+  }
+
+  /**
+   * RT department mapping for this tick. When settings could not be read, the last known
+   * mapping still applies if it was the default one; a configured (or never read) mapping
+   * returns null, since guessing would book every line on the default VAT rate.
+   */
+  private resolveFiscalRtConfig(liveRoutes: LiveRoutes | null) {
+    if (liveRoutes) return liveRoutes.fiscal;
+    const last = this.lastFiscalConfig;
+    if (last && last.restaurantId === this.authState.restaurant?.id && !last.config.configured) {
+      return DEFAULT_FISCAL_RT_CONFIG;
+    }
+    return null;
+  }
+
+  private buildPhysicalDocumentXml(payload: Record<string, unknown>, fiscal: FiscalRtConfig | null) {
+    const type = physicalDocumentType(payload);
+    if (type === "void") return buildEpsonVoidXml(parseFiscalDocumentRef(payload, this.findOriginalReceipt(payload)));
+    if (!fiscal) throw new Error("FISCAL_CONFIG_UNAVAILABLE");
+    if (type === "sale") return buildEpsonFiscalReceiptXml(payload, fiscal);
+    const ref = parseFiscalDocumentRef(payload, this.findOriginalReceipt(payload));
+    return buildEpsonRefundXml(payload, fiscal, ref);
+  }
+
+  private async sendToPhysicalReceiptDevice(job: PhysicalReceiptJobRow, fiscal: FiscalRtConfig | null) {
     const payload = (job.payload && typeof job.payload === "object" ? job.payload : {}) as Record<string, unknown>;
     const route = (payload.route && typeof payload.route === "object" ? payload.route : {}) as Record<string, unknown>;
+    const body = this.buildPhysicalDocumentXml(payload, fiscal);
 
     let lastError: unknown = null;
     for (let attempt = 1; attempt <= 2; attempt += 1) {
       try {
-        const receiptId = await this.postPhysicalReceipt(route, payload);
-        return receiptId || `RT-${String(job.id || "").slice(0, 8)}-${Date.now()}`;
+        const issued = await this.postPhysicalReceipt(route, body);
+        return {
+          receiptId: issued.receiptId || `RT-${String(job.id || "").slice(0, 8)}-${Date.now()}`,
+          fiscalDocument: issued.fiscalDocument,
+        };
       } catch (error) {
         lastError = error;
         if (attempt >= 2 || !shouldRetryPrintLocally(error)) break;
@@ -1291,18 +4987,185 @@ export class DesktopPrintWorker {
     throw new Error(`${normalizeError(lastError)} (target ${host}:${port})`);
   }
 
+  /** Returns false when the job was left unacknowledged for the server to hand out again. */
+  private async processPhysicalReceiptJob(job: PhysicalReceiptJobRow, liveRoutes: LiveRoutes | null) {
+    await this.spoolClaimed("physical_receipt", job.id);
+    const payload = (job.payload && typeof job.payload === "object" ? job.payload : {}) as Record<string, unknown>;
+    const documentType = physicalDocumentType(payload);
+    const label = `${PHYSICAL_DOCUMENT_LABELS[documentType]} RT job ${String(job.id).slice(0, 8)}`;
+    const meta = documentType === "sale" ? null : { document_type: documentType, original_job_id: payload.original_job_id ?? null };
+    const alreadyPrinted = this.findAlreadyPrinted("physical_receipt", job.id, job.payload);
+    if (alreadyPrinted) {
+      this.service.stats.deduplicated += 1;
+      this.pushLog(
+        "WARN",
+        `${label} già emesso (${alreadyPrinted.receiptId || "n/d"}): ripeto solo la conferma`,
+      );
+      await this.settleSpooledJob("physical_receipt", job.id, {
+        success: true,
+        error: null,
+        receiptId: alreadyPrinted.receiptId,
+        meta: alreadyPrinted.meta ?? meta,
+      });
+      return true;
+    }
+    const fiscal = this.resolveFiscalRtConfig(liveRoutes);
+    if (!fiscal && documentType !== "void") {
+      // Not a failure of the document: leave it unacknowledged so the server hands it out again.
+      this.pushLog("WARN", `${label}: reparti RT non disponibili, riprovo al prossimo giro`);
+      await this.releaseSpooledJob("physical_receipt", job.id);
+      return false;
+    }
+    try {
+      const { receiptId, fiscalDocument } = await this.sendToPhysicalReceiptDevice(job, fiscal);
+      await this.recordPrinted("physical_receipt", job.id, { receiptId, fiscalDocument, meta });
+      this.service.stats.printed += 1;
+      this.pushLog("INFO", `Emesso ${label} (${receiptId})`);
+      await this.settleSpooledJob("physical_receipt", job.id, { success: true, error: null, receiptId, meta });
+    } catch (jobError) {
+      const message = normalizeError(jobError);
+      this.service.stats.failed += 1;
+      this.pushLog("ERROR", `Errore ${label}: ${message}`);
+      await this.settleSpooledJob("physical_receipt", job.id, { success: false, error: message, receiptId: null, meta });
+    }
+    return true;
+  }
+
   private async completePhysicalReceiptJob(
-    job: PhysicalReceiptJobRow,
+    jobId: string,
     success: boolean,
-    options: { receiptId?: string | null; error?: string | null } = {},
+    options: { receiptId?: string | null; error?: string | null; meta?: Record<string, unknown> | null } = {},
   ) {
     const client = this.ensureSupabaseClient();
     const { error } = await client.rpc("physical_receipt_complete_job", {
-      p_job_id: job.id,
+      p_job_id: jobId,
       p_consumer_id: this.config.consumerId,
       p_success: success,
       p_receipt_id: success ? String(options.receiptId || "").trim() || null : null,
       p_error: success ? null : String(options.error || "PHYSICAL_RECEIPT_FAILED").slice(0, 500),
+      p_meta: {
+        ...options.meta,
+        source: "desktop_all_in_one",
+        device_name: this.config.deviceName,
+        app_version: this.appVersion,
+      },
+    });
+    if (error) throw error;
+  }
+
+  private async runFiscalReportOnDevice(route: Record<string, unknown>, type: FiscalReportType): Promise<FiscalReportResult> {
+    // Never retried: a Z sent twice would close a second, empty day.
+    const response = await this.postFpMateXml(route, buildEpsonFiscalReportXml(type), FISCAL_REPORT_TIMEOUT_MS);
+    return {
+      type,
+      closureNumber: type === "z" ? response.zRepNumber : null,
+      dailyAmount: response.dailyAmount,
+      printedAt: new Date().toISOString(),
+    };
+  }
+
+  /**
+   * A Z closes the fiscal day: it must wait while receipts of that day may still reach the RT,
+   * i.e. receipts in flight or held for an offline printer, receipts of the latest tick that
+   * got no outcome, or a full claim batch. Returns why it must wait, or null.
+   */
+  private pendingReceiptsBeforeZ(type: FiscalReportType) {
+    if (type !== "z") return null;
+    const inFlight = Array.from(this.spool.values()).filter(
+      (entry) => (entry.kind === "physical_receipt" || entry.kind === "non_fiscal_receipt") && !entry.outcome,
+    ).length;
+    if (inFlight > 0) return `FISCAL_Z_PENDING_RECEIPTS (${inFlight} scontrini in corso)`;
+    const receipts = this.tickReceipts;
+    if (receipts.unsettled.size > 0) return `FISCAL_Z_PENDING_RECEIPTS (${receipts.unsettled.size} scontrini non emessi)`;
+    if (receipts.backlog) return "FISCAL_Z_PENDING_RECEIPTS (altri scontrini in coda)";
+    return null;
+  }
+
+  private async processFiscalReportJob(job: FiscalReportJobRow) {
+    await this.spoolClaimed("fiscal_report", job.id);
+    const payload = (job.payload && typeof job.payload === "object" ? job.payload : {}) as Record<string, unknown>;
+    const route = (payload.route && typeof payload.route === "object" ? payload.route : {}) as Record<string, unknown>;
+    const type = normalizeFiscalReportType(payload.report ?? payload.type);
+    const label = `${type === "x" ? "Lettura X" : "Chiusura Z"} job ${String(job.id).slice(0, 8)}`;
+    // A Z is never repeated, not even on a forced reprint.
+    const alreadyPrinted =
+      type === "x"
+        ? this.findAlreadyPrinted("fiscal_report", job.id, job.payload)
+        : this.ledger.get(spoolKey("fiscal_report", job.id)) || null;
+    if (alreadyPrinted) {
+      this.service.stats.deduplicated += 1;
+      this.pushLog("WARN", `${label} già eseguita: ripeto solo la conferma`);
+      await this.settleSpooledJob("fiscal_report", job.id, {
+        success: true,
+        error: null,
+        receiptId: alreadyPrinted.receiptId,
+        meta: alreadyPrinted.meta,
+      });
+      return;
+    }
+    const pending = type ? this.pendingReceiptsBeforeZ(type) : null;
+    if (pending) {
+      // Not a failure: left unacknowledged, the server hands the Z out again once receipts settle.
+      this.pushLog("WARN", `${label} rimandata: ${pending}`);
+      await this.releaseSpooledJob("fiscal_report", job.id);
+      return;
+    }
+    try {
+      if (!type) throw new Error("FISCAL_REPORT_TYPE_INVALID");
+      const report = await this.runFiscalReportOnDevice(route, type);
+      await this.recordPrinted("fiscal_report", job.id, {
+        receiptId: report.closureNumber,
+        meta: fiscalReportMeta(report),
+      });
+      this.service.stats.printed += 1;
+      const closure = report.closureNumber ? ` n. ${report.closureNumber}` : "";
+      const amount = report.dailyAmount != null ? `, totale ${formatCurrency(report.dailyAmount)}` : "";
+      this.pushLog("INFO", `${label} eseguita${closure}${amount}`);
+      await this.settleSpooledJob("fiscal_report", job.id, {
+        success: true,
+        error: null,
+        receiptId: report.closureNumber,
+        meta: fiscalReportMeta(report),
+      });
+    } catch (jobError) {
+      const message = normalizeError(jobError);
+      this.service.stats.failed += 1;
+      this.pushLog("ERROR", `Errore ${label}: ${message}`);
+      await this.settleSpooledJob("fiscal_report", job.id, { success: false, error: message, receiptId: null });
+    }
+  }
+
+  private async completeFiscalReportJob(
+    jobId: string,
+    success: boolean,
+    options: { report?: Record<string, unknown> | null; error?: string | null } = {},
+  ) {
+    const client = this.ensureSupabaseClient();
+    const { error } = await client.rpc("fiscal_report_complete_job", {
+      p_job_id: jobId,
+      p_consumer_id: this.config.consumerId,
+      p_success: success,
+      p_report: success ? options.report ?? null : null,
+      p_error: success ? null : String(options.error || "FISCAL_REPORT_FAILED").slice(0, 500),
+      p_meta: {
+        source: "desktop_all_in_one",
+        device_name: this.config.deviceName,
+        app_version: this.appVersion,
+      },
+    });
+    if (error) throw error;
+  }
+
+  /** Uploads a report run from the desktop shell, which has no server job to complete. */
+  private async recordManualFiscalReport(reportId: string, report: Record<string, unknown> | null) {
+    const restaurantId = this.authState.restaurant?.id;
+    if (!restaurantId) throw new Error("Ristorante non risolto.");
+    const client = this.ensureSupabaseClient();
+    const { error } = await client.rpc("fiscal_report_record_manual", {
+      p_restaurant_id: restaurantId,
+      p_consumer_id: this.config.consumerId,
+      p_report_id: reportId.slice(MANUAL_FISCAL_REPORT_PREFIX.length),
+      p_report: report,
       p_meta: {
         source: "desktop_all_in_one",
         device_name: this.config.deviceName,
@@ -1312,32 +5175,112 @@ export class DesktopPrintWorker {
     if (error) throw error;
   }
 
-  private async sendToNonFiscalReceiptPrinter(job: NonFiscalReceiptJobRow) {
+  private resolveNonFiscalReceiptTarget(
+    job: NonFiscalReceiptJobRow,
+    liveRoutes: LiveRoutes | null = null,
+  ): PrinterTarget | null {
     const payload = (job.payload && typeof job.payload === "object" ? job.payload : {}) as Record<string, unknown>;
     const route = (payload.route && typeof payload.route === "object" ? payload.route : {}) as Record<string, unknown>;
     const host = String(route.host ?? "").trim();
-    const port = sanitizePrinterPort(route.port ?? 9100);
-    if (!host) throw new Error("NO_PRINTER_HOST");
-    const ticketText = renderNonFiscalReceiptTicket(job);
-    const escPosPayload = buildEscPosPayload(ticketText);
-    let lastError: unknown = null;
-    for (let attempt = 1; attempt <= 2; attempt += 1) {
-      try {
-        await openRawSocket(host, port, escPosPayload);
-        return;
-      } catch (error) {
-        lastError = error;
-        if (attempt >= 2 || !shouldRetryPrintLocally(error)) break;
-        await sleep(500);
-      }
+    if (!host) return null;
+    const id = String(route.id || route.printer_id || "").trim() || null;
+    // The configured printer knows its paper better than the route snapshot.
+    const live = id ? liveRoutes?.byId.get(id) : null;
+    return {
+      id,
+      name: String(route.name || "").trim() || host,
+      host,
+      port: sanitizePrinterPort(route.port ?? 9100),
+      statusMode: sanitizePrinterStatusMode(route.status_mode),
+      paper: live?.paper || resolvePaperProfile(route.paper_width, route.font),
+      encoding: live?.encoding || resolvePrinterEncoding(route.encoding, route.code_page),
+      drawer: live ? live.drawer : parseCashDrawerConfig(route.cash_drawer),
+    };
+  }
+
+  private async sendToNonFiscalReceiptPrinter(job: NonFiscalReceiptJobRow, liveRoutes: LiveRoutes | null) {
+    const target = this.resolveNonFiscalReceiptTarget(job, liveRoutes);
+    if (!target) throw new Error("NO_PRINTER_HOST");
+    const template = (liveRoutes?.templates || DEFAULT_TICKET_TEMPLATES).nonFiscalReceipt;
+    const paper = target.paper || resolvePaperProfile(null, null);
+    const encoding = target.encoding || resolvePrinterEncoding(null, null);
+    const logo = templateUsesLogo(template) ? await this.loadLogoRaster(liveRoutes?.logo || null, paper) : null;
+    const lines = renderNonFiscalReceiptTicket(job, template, paper, {
+      reviewUrl: liveRoutes?.reviewUrl,
+      logo,
+      encoding,
+    });
+    const payload = (job.payload && typeof job.payload === "object" ? job.payload : {}) as Record<string, unknown>;
+    const receipt = buildEscPosPayload(lines, paper, encoding);
+    const delivery = await this.deliverToPrinter(target, receipt, `scontrino ${String(job.id).slice(0, 8)}`, {
+      jobId: job.id,
+    });
+    // A receipt printed later from the held queue must not pop the drawer open when nobody is at the till.
+    const openDrawer = readPaymentTenders(payload).some((tender) => tender.method === "cash");
+    if (!delivery.held && openDrawer && target.drawer) {
+      await this.deliverToPrinter({ ...target, statusMode: "off" }, buildDrawerKickCommand(target.drawer), "cassetto", {
+        allowHold: false,
+      }).catch((error) => this.pushLog("WARN", `Apertura cassetto su ${target.name} fallita: ${normalizeError(error)}`));
     }
-    throw new Error(`${normalizeError(lastError)} (target ${host}:${port})`);
+    return delivery;
+  }
+
+  private async processNonFiscalReceiptJob(job: NonFiscalReceiptJobRow, liveRoutes: LiveRoutes | null) {
+    if (this.isJobHeld(job.id)) {
+      this.pushLog("WARN", `Scontrino non fiscale ${String(job.id).slice(0, 8)} già in coda: ignoro la riconsegna`);
+      return;
+    }
+    await this.spoolClaimed("non_fiscal_receipt", job.id);
+    const alreadyPrinted = this.findAlreadyPrinted("non_fiscal_receipt", job.id, job.payload);
+    if (alreadyPrinted) {
+      this.service.stats.deduplicated += 1;
+      this.pushLog(
+        "WARN",
+        `Scontrino non fiscale ${String(job.id).slice(0, 8)} già stampato (${formatTimestamp(alreadyPrinted.printedAt)}): ripeto solo la conferma`,
+      );
+      await this.settleSpooledJob("non_fiscal_receipt", job.id, { success: true, error: null, receiptId: null });
+      return;
+    }
+    let delivery: PrinterDelivery;
+    try {
+      delivery = await this.sendToNonFiscalReceiptPrinter(job, liveRoutes);
+    } catch (jobError) {
+      await this.finishNonFiscalReceiptJob(job, normalizeError(jobError));
+      return;
+    }
+    if (delivery.held) {
+      this.pushLog("WARN", `Scontrino non fiscale ${String(job.id).slice(0, 8)} in coda: stampante in attesa`);
+      void delivery.done.then(
+        () => this.finishNonFiscalReceiptJob(job, null),
+        (error) => this.finishNonFiscalReceiptJob(job, normalizeError(error)),
+      );
+      return;
+    }
+    await this.finishNonFiscalReceiptJob(job, null);
+  }
+
+  private async finishNonFiscalReceiptJob(job: NonFiscalReceiptJobRow, failure: string | null) {
+    if (failure === HELD_DROPPED_ERROR) {
+      await this.releaseSpooledJob("non_fiscal_receipt", job.id);
+      return;
+    }
+    if (failure == null) {
+      await this.recordPrinted("non_fiscal_receipt", job.id);
+      this.service.stats.printed += 1;
+      this.pushLog("INFO", `Stampato scontrino non fiscale ${String(job.id).slice(0, 8)}`);
+      await this.settleSpooledJob("non_fiscal_receipt", job.id, { success: true, error: null, receiptId: null });
+    } else {
+      this.service.stats.failed += 1;
+      this.pushLog("ERROR", `Errore NFR job ${String(job.id).slice(0, 8)}: ${failure}`);
+      await this.settleSpooledJob("non_fiscal_receipt", job.id, { success: false, error: failure, receiptId: null });
+    }
+    if (!this.service.processing) this.broadcastState();
   }
 
-  private async completeNonFiscalReceiptJob(job: NonFiscalReceiptJobRow, success: boolean, errorMessage: string | null) {
+  private async completeNonFiscalReceiptJob(jobId: string, success: boolean, errorMessage: string | null) {
     const client = this.ensureSupabaseClient();
     const { error } = await client.rpc("non_fiscal_receipt_complete_job", {
-      p_job_id: job.id,
+      p_job_id: jobId,
       p_consumer_id: this.config.consumerId,
       p_success: success,
       p_error: success ? null : String(errorMessage || "PRINT_FAILED").slice(0, 500),
@@ -1345,6 +5288,96 @@ export class DesktopPrintWorker {
     if (error) throw error;
   }
 
+  private async claimPhysicalReceiptJobs(restaurantId: string) {
+    if (!this.physicalReceiptRpcAvailable) return [];
+    try {
+      const client = this.ensureSupabaseClient();
+      const { data: physicalData, error: physicalError } = await client.rpc("physical_receipt_claim_jobs", {
+        p_restaurant_id: restaurantId,
+        p_consumer_id: this.config.consumerId,
+        p_limit: this.config.claimLimit,
+      });
+
+      if (physicalError) {
+        if (isMissingRpcError(physicalError, "physical_receipt_claim_jobs")) {
+          this.physicalReceiptRpcAvailable = false;
+          this.pushLog("WARN", "RPC physical_receipt_claim_jobs non trovata: applica la migrazione RT fisico.");
+          return [];
+        }
+        throw physicalError;
+      }
+      const physicalJobs = (Array.isArray(physicalData) ? physicalData : []) as PhysicalReceiptJobRow[];
+      this.service.stats.claimed += physicalJobs.length;
+      if (physicalJobs.length > 0) {
+        this.pushLog("INFO", `Claimati ${physicalJobs.length} job RT fisico`);
+      }
+      return physicalJobs;
+    } catch (physicalTickError) {
+      this.pushLog("ERROR", `Tick RT fisico: ${normalizeError(physicalTickError)}`);
+      return [];
+    }
+  }
+
+  private async claimFiscalReportJobs(restaurantId: string) {
+    if (!this.fiscalReportRpcAvailable) return [];
+    try {
+      const client = this.ensureSupabaseClient();
+      const { data: reportData, error: reportError } = await client.rpc("fiscal_report_claim_jobs", {
+        p_restaurant_id: restaurantId,
+        p_consumer_id: this.config.consumerId,
+        p_limit: this.config.claimLimit,
+      });
+
+      if (reportError) {
+        if (isMissingRpcError(reportError, "fiscal_report_claim_jobs")) {
+          this.fiscalReportRpcAvailable = false;
+          this.pushLog("WARN", "RPC fiscal_report_claim_jobs non trovata: applica la migrazione report fiscali.");
+          return [];
+        }
+        throw reportError;
+      }
+      const reportJobs = (Array.isArray(reportData) ? reportData : []) as FiscalReportJobRow[];
+      this.service.stats.claimed += reportJobs.length;
+      if (reportJobs.length > 0) {
+        this.pushLog("INFO", `Claimati ${reportJobs.length} job report fiscale`);
+      }
+      return reportJobs;
+    } catch (reportTickError) {
+      this.pushLog("ERROR", `Tick report fiscale: ${normalizeError(reportTickError)}`);
+      return [];
+    }
+  }
+
+  private async claimNonFiscalReceiptJobs(restaurantId: string) {
+    if (!this.nonFiscalReceiptRpcAvailable) return [];
+    try {
+      const client = this.ensureSupabaseClient();
+      const { data: nfrData, error: nfrError } = await client.rpc("non_fiscal_receipt_claim_jobs", {
+        p_restaurant_id: restaurantId,
+        p_consumer_id: this.config.consumerId,
+        p_limit: this.config.claimLimit,
+      });
+
+      if (nfrError) {
+        if (isMissingRpcError(nfrError, "non_fiscal_receipt_claim_jobs")) {
+          this.nonFiscalReceiptRpcAvailable = false;
+          this.pushLog("WARN", "RPC non_fiscal_receipt_claim_jobs non trovata: applica la migrazione.");
+          return [];
+        }
+        throw nfrError;
+      }
+      const nfrJobs = (Array.isArray(nfrData) ? nfrData : []) as NonFiscalReceiptJobRow[];
+      this.service.stats.claimed += nfrJobs.length;
+      if (nfrJobs.length > 0) {
+        this.pushLog("INFO", `Claimati ${nfrJobs.length} job scontrino non fiscale`);
+      }
+      return nfrJobs;
+    } catch (nfrTickError) {
+      this.pushLog("ERROR", `Tick scontrino non fiscale: ${normalizeError(nfrTickError)}`);
+      return [];
+    }
+  }
+
   private async runTick() {
     if (!this.service.running || this.service.processing) return;
     this.service.processing = true;
@@ -1352,10 +5385,12 @@ export class DesktopPrintWorker {
     try {
       await this.ensureSignedIn();
       if (!this.authState.restaurant?.id) throw new Error("Ristorante non risolto.");
+      const restaurantId = this.authState.restaurant.id;
       await this.heartbeatAgent(true);
+      await this.flushSpoolAcks();
       const client = this.ensureSupabaseClient();
       const { data, error } = await client.rpc("print_claim_jobs", {
-        p_restaurant_id: this.authState.restaurant.id,
+        p_restaurant_id: restaurantId,
         p_consumer_id: this.config.consumerId,
         p_limit: this.config.claimLimit,
       });
@@ -1363,131 +5398,53 @@ export class DesktopPrintWorker {
       const jobs = (Array.isArray(data) ? data : []) as JobRow[];
       this.service.stats.claimed += jobs.length;
       if (jobs.length > 0) this.pushLog("INFO", `Claimati ${jobs.length} job`);
+      const physicalJobs = await this.claimPhysicalReceiptJobs(restaurantId);
+      const nfrJobs = await this.claimNonFiscalReceiptJobs(restaurantId);
+      const reportJobs = await this.claimFiscalReportJobs(restaurantId);
+      // A full batch means more receipts may still be waiting on the server.
+      const receipts: FiscalReportReceiptState = {
+        backlog: physicalJobs.length >= this.config.claimLimit,
+        unsettled: new Set(physicalJobs.map((job) => job.id)),
+      };
+      this.tickReceipts = receipts;
 
       let liveRoutes: LiveRoutes | null = null;
-      try {
-        liveRoutes = await this.fetchLivePrinterRoutes(this.authState.restaurant.id);
-      } catch (routesError) {
-        this.pushLog("WARN", `Risoluzione route live fallita: ${normalizeError(routesError)}`);
-      }
-
-      for (const job of jobs) {
+      if (jobs.length > 0 || physicalJobs.length > 0 || nfrJobs.length > 0) {
         try {
-          const route = this.resolveRouteForJob(job, liveRoutes);
-          await this.sendToPrinter(job, route);
-          await this.completePrintJob(job, true, null);
-          this.service.stats.printed += 1;
-          this.pushLog("INFO", `Stampato job ${String(job.id).slice(0, 8)} -> ${normalizeDepartment(job.department)}`);
-        } catch (jobError) {
-          const message = normalizeError(jobError);
-          try {
-            await this.completePrintJob(job, false, message);
-          } catch (ackError) {
-            this.pushLog("ERROR", `Ack failed job ${String(job.id).slice(0, 8)}: ${normalizeError(ackError)}`);
-          }
-          this.service.stats.failed += 1;
-          this.pushLog("ERROR", `Errore job ${String(job.id).slice(0, 8)}: ${message}`);
+          liveRoutes = await this.fetchLivePrinterRoutes(restaurantId);
+        } catch (routesError) {
+          this.pushLog("WARN", `Risoluzione route live fallita: ${normalizeError(routesError)}`);
         }
       }
 
-      if (this.physicalReceiptRpcAvailable) {
-        try {
-          const { data: physicalData, error: physicalError } = await client.rpc("physical_receipt_claim_jobs", {
-            p_restaurant_id: this.authState.restaurant.id,
-            p_consumer_id: this.config.consumerId,
-            p_limit: this.config.claimLimit,
-          });
-
-          if (physicalError) {
-            if (isMissingRpcError(physicalError, "physical_receipt_claim_jobs")) {
-              this.physicalReceiptRpcAvailable = false;
-              this.pushLog("WARN", "RPC physical_receipt_claim_jobs non trovata: applica la migrazione RT fisico.");
-            } else {
-              throw physicalError;
-            }
-          } else {
-            const physicalJobs = (Array.isArray(physicalData) ? physicalData : []) as PhysicalReceiptJobRow[];
-            this.service.stats.claimed += physicalJobs.length;
-            if (physicalJobs.length > 0) {
-              this.pushLog("INFO", `Claimati ${physicalJobs.length} job RT fisico`);
-            }
-
-            for (const job of physicalJobs) {
-              try {
-                const receiptId = await this.sendToPhysicalReceiptDevice(job);
-                await this.completePhysicalReceiptJob(job, true, { receiptId });
-                this.service.stats.printed += 1;
-                this.pushLog("INFO", `Emesso scontrino RT job ${String(job.id).slice(0, 8)}`);
-              } catch (jobError) {
-                const message = normalizeError(jobError);
-                try {
-                  await this.completePhysicalReceiptJob(job, false, { error: message });
-                } catch (ackError) {
-                  if (isMissingRpcError(ackError, "physical_receipt_complete_job")) {
-                    this.physicalReceiptRpcAvailable = false;
-                    this.pushLog("WARN", "RPC physical_receipt_complete_job non trovata: applica la migrazione RT fisico.");
-                  } else {
-                    this.pushLog("ERROR", `Ack failed RT job ${String(job.id).slice(0, 8)}: ${normalizeError(ackError)}`);
-                  }
-                }
-                this.service.stats.failed += 1;
-                this.pushLog("ERROR", `Errore RT job ${String(job.id).slice(0, 8)}: ${message}`);
-              }
-            }
-          }
-        } catch (physicalTickError) {
-          this.pushLog("ERROR", `Tick RT fisico: ${normalizeError(physicalTickError)}`);
-        }
+      // One lane per physical device: lanes run concurrently, jobs inside a lane keep claim order.
+      const lanes = new Map<string, Array<() => Promise<void>>>();
+      const enqueue = (laneKey: string, task: () => Promise<void>) => {
+        const lane = lanes.get(laneKey) || [];
+        lane.push(task);
+        lanes.set(laneKey, lane);
+      };
+      for (const job of jobs) {
+        for (const part of await this.planPrintJob(job, liveRoutes)) enqueue(part.laneKey, part.run);
       }
-
-      if (this.nonFiscalReceiptRpcAvailable) {
-        try {
-          const { data: nfrData, error: nfrError } = await client.rpc("non_fiscal_receipt_claim_jobs", {
-            p_restaurant_id: this.authState.restaurant.id,
-            p_consumer_id: this.config.consumerId,
-            p_limit: this.config.claimLimit,
-          });
-
-          if (nfrError) {
-            if (isMissingRpcError(nfrError, "non_fiscal_receipt_claim_jobs")) {
-              this.nonFiscalReceiptRpcAvailable = false;
-              this.pushLog("WARN", "RPC non_fiscal_receipt_claim_jobs non trovata: applica la migrazione.");
-            } else {
-              throw nfrError;
-            }
-          } else {
-            const nfrJobs = (Array.isArray(nfrData) ? nfrData : []) as NonFiscalReceiptJobRow[];
-            this.service.stats.claimed += nfrJobs.length;
-            if (nfrJobs.length > 0) {
-              this.pushLog("INFO", `Claimati ${nfrJobs.length} job scontrino non fiscale`);
-            }
-
-            for (const job of nfrJobs) {
-              try {
-                await this.sendToNonFiscalReceiptPrinter(job);
-                await this.completeNonFiscalReceiptJob(job, true, null);
-                this.service.stats.printed += 1;
-                this.pushLog("INFO", `Stampato scontrino non fiscale ${String(job.id).slice(0, 8)}`);
-              } catch (jobError) {
-                const message = normalizeError(jobError);
-                try {
-                  await this.completeNonFiscalReceiptJob(job, false, message);
-                } catch (ackError) {
-                  if (isMissingRpcError(ackError, "non_fiscal_receipt_complete_job")) {
-                    this.nonFiscalReceiptRpcAvailable = false;
-                  } else {
-                    this.pushLog("ERROR", `Ack failed NFR job ${String(job.id).slice(0, 8)}: ${normalizeError(ackError)}`);
-                  }
-                }
-                this.service.stats.failed += 1;
-                this.pushLog("ERROR", `Errore NFR job ${String(job.id).slice(0, 8)}: ${message}`);
-              }
-            }
-          }
-        } catch (nfrTickError) {
-          this.pushLog("ERROR", `Tick scontrino non fiscale: ${normalizeError(nfrTickError)}`);
-        }
+      for (const job of physicalJobs) {
+        enqueue(physicalLaneKey(job.payload), async () => {
+          if (await this.processPhysicalReceiptJob(job, liveRoutes)) receipts.unsettled.delete(job.id);
+        });
       }
+      // Reports share the RT lane, so this tick's receipts are emitted before a Z closes the day.
+      for (const job of reportJobs) {
+        enqueue(physicalLaneKey(job.payload), () => this.processFiscalReportJob(job));
+      }
+      for (const job of nfrJobs) {
+        const target = this.resolveNonFiscalReceiptTarget(job);
+        enqueue(target ? printerTargetKey(target) : `unrouted:${job.id}`, () =>
+          this.processNonFiscalReceiptJob(job, liveRoutes),
+        );
+      }
+      await runWithConcurrency(Array.from(lanes.values()), this.config.printConcurrency, async (lane) => {
+        for (const task of lane) await task();
+      });
 
       this.service.stats.lastRunAt = new Date().toISOString();
       this.service.stats.lastError = null;
@@ -1498,11 +5455,7 @@ export class DesktopPrintWorker {
     } finally {
       this.service.processing = false;
       this.broadcastState();
-      if (this.service.running) {
-        this.service.timer = setTimeout(() => {
-          void this.runTick();
-        }, this.config.pollMs);
-      }
+      this.scheduleNextTick();
     }
   }
 